@@ -3,66 +3,201 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import type {Video} from '@google/genai';
-import React, {useCallback, useEffect, useState} from 'react';
+import React, {useCallback, useEffect, useMemo, useRef, useState} from 'react';
 import ApiKeyDialog from './components/ApiKeyDialog';
 import BinSystem from './components/BinSystem';
 import DirectorAssistant from './components/DirectorAssistant';
-import { ChevronDownIcon, ChevronUpIcon, PresentationIcon, TvIcon } from './components/icons';
+import FrameGrabber from './components/FrameGrabber';
+import JobQueuePanel from './components/JobQueuePanel';
+import { ChevronDownIcon, ChevronUpIcon, DownloadIcon, FilmIcon, PresentationIcon, RedoIcon, TvIcon, UndoIcon, UploadIcon } from './components/icons';
 import LoadingIndicator from './components/LoadingIndicator';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import RenderDialog from './components/RenderDialog';
+import SceneInspector from './components/SceneInspector';
+import SequencePlayer, {SequencePlayerHandle, SequencePosition} from './components/SequencePlayer';
 import PromptForm from './components/PromptForm';
 import Storyboard from './components/Storyboard';
+import TakesPanel from './components/TakesPanel';
 import Timeline from './components/Timeline';
-import {generateVideo, generateImage, DirectorAction} from './services/geminiService';
+import TitleCardEditor from './components/TitleCardEditor';
+import TrimEditor from './components/TrimEditor';
+import TrimmedVideo from './components/TrimmedVideo';
+import {useHistory} from './hooks/useHistory';
+import {DEFAULT_JOB_CONCURRENCY, isJobActive, useJobQueue} from './hooks/useJobQueue';
+import {generateVideo, generateImage, resumeVideoGeneration, DirectorAction, GeneratedVideo, MAX_REFERENCE_IMAGES} from './services/geminiService';
+import {GenerationError} from './services/errors';
+import {CapturedFrame, probeVideoDuration} from './services/media';
+import {RenderedFilm} from './services/render';
+import {DEFAULT_VIDEO_TIMEOUT_MS} from './services/polling';
+import {
+  addTake,
+  getSelectedTakeId,
+  getTakes,
+  paramsForReshoot,
+  promptBarValues,
+  provenanceOf,
+  removeTake,
+  selectTake,
+  settingsOf,
+} from './services/takes';
+import {assetLabel, ImportedImage, inferAssetType, isAssetType} from './services/assets';
+import {prepareBridgeParams} from './services/bridge';
+import {collectTags, createFilterView, EMPTY_FILTER} from './services/search';
+import {TURNAROUND_VIEWS, turnaroundPrompt, turnaroundReferenceIds} from './services/turnaround';
+import {ARCHIVE_EXTENSION, exportProjectArchive, importProjectArchive} from './services/projectArchive';
+import {
+  createBucket,
+  createEmptyProject,
+  loadPendingOperations,
+  loadProject,
+  ProjectState,
+  removePendingOperation,
+  savePendingOperation,
+  saveProject,
+  shareBlobKey,
+} from './services/projectStore';
 import {
-  AppState,
   Asset,
+  AssetType,
   AspectRatio,
   ContinuityProfile,
   FilmStyle,
   GenerateVideoParams,
   GenerationMode,
   ImageFile,
+  LibraryFilter,
+  PendingOperation,
+  PromptComposition,
   Resolution,
+  SavedFilterView,
   Scene,
+  SceneTransition,
+  StoryBucket,
+  TitleCard,
   VeoModel,
   VideoFile,
 } from './types';
 
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Typical wall-clock times, only used to draw estimated progress in the render queue.
+const EXPECTED_VIDEO_MS: Record<VeoModel, number> = {
+  [VeoModel.VEO_FAST]: 60_000,
+  [VeoModel.VEO]: 120_000,
+};
+const EXPECTED_IMAGE_MS = 20_000;
+
+// The undoable part of the project: everything except navigation/selection.
+interface StudioState {
+  buckets: StoryBucket[];
+  assets: Asset[];
+  customStyles: FilmStyle[];
+  filterViews: SavedFilterView[];
+}
+
 const generateId = () => globalThis.crypto?.randomUUID() ?? (Date.now().toString(36) + Math.random().toString(36).slice(2));
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [showApiKeyDialog, setShowApiKeyDialog] = useState(false);
   
   // Layout State
   const [activeView, setActiveView] = useState<'studio' | 'storyboard'>('studio');
   const [isTimelineCollapsed, setIsTimelineCollapsed] = useState(false);
   const [isPromptBarCollapsed, setIsPromptBarCollapsed] = useState(false);
+  const [isSequenceMode, setIsSequenceMode] = useState(false);
+  const [isRenderDialogOpen, setIsRenderDialogOpen] = useState(false);
+  // Open title card editor: `sceneId` is the card being edited, unset for a new one.
+  const [titleCardEditor, setTitleCardEditor] = useState<{sceneId?: string} | null>(null);
+  const [sequencePosition, setSequencePosition] = useState<SequencePosition | null>(null);
+  const sequencePlayerRef = useRef<SequencePlayerHandle>(null);
 
   // Studio State
-  const [scenes, setScenes] = useState<Scene[]>([]);
-  const [assets, setAssets] = useState<Asset[]>([]);
+  const [emptyProject] = useState(createEmptyProject);
+  const studio = useHistory<StudioState>({buckets: emptyProject.buckets, assets: [], customStyles: [], filterViews: []});
+  const {buckets, assets, customStyles, filterViews} = studio.present;
+  const {set: setStudio, undo, redo} = studio;
+  const [activeBucketId, setActiveBucketId] = useState<string>(emptyProject.activeBucketId);
   const [selectedAssetIds, setSelectedAssetIds] = useState<string[]>([]);
   const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null);
+  // Search and filters shared by the bin and the timeline; not part of the project.
+  const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>(EMPTY_FILTER);
+  // When on, new generations land right after the selected scene instead of at the end.
+  const [insertAfterSelected, setInsertAfterSelected] = useState(false);
+  // Scene the prompt bar is reshooting; its next generation becomes a new take there.
+  const [reshootSceneId, setReshootSceneId] = useState<string | null>(null);
+  // Take shown in the player, which may differ from the scene's selected take.
+  const [viewedTakeId, setViewedTakeId] = useState<string | null>(null);
   const [externalPrompt, setExternalPrompt] = useState<string | null>(null);
   const [initialFormValues, setInitialFormValues] = useState<GenerateVideoParams | null>(null);
+  // Frames grabbed from the player for the next generation.
+  const [externalStartFrame, setExternalStartFrame] = useState<CapturedFrame | null>(null);
+  const [frameReferences, setFrameReferences] = useState<CapturedFrame[]>([]);
+  const playerRef = useRef<HTMLVideoElement | null>(null);
+
+  // Story Buckets: scenes, story memory, style and continuity belong to the active bucket
+  const activeBucket = buckets.find(b => b.id === activeBucketId) ?? buckets[0];
+  // Read by job callbacks, which outlive the render that queued them.
+  const activeBucketRef = useRef(activeBucket);
+  activeBucketRef.current = activeBucket;
+  const {scenes, storyMemory, selectedStyle, continuity} = activeBucket;
+  // Shared assets have no bucketId; scoped ones only show up in their own bucket
+  const bucketAssets = assets.filter(a => !a.bucketId || a.bucketId === activeBucket.id);
+  const tagSuggestions = collectTags([...bucketAssets, ...scenes]);
+
+  const setAssets = useCallback((update: (prev: Asset[]) => Asset[]) => {
+    setStudio(s => ({...s, assets: update(s.assets)}));
+  }, [setStudio]);
+  const updateBucket = useCallback((bucketId: string, update: (bucket: StoryBucket) => StoryBucket, coalesceKey?: string) => {
+    setStudio(s => ({...s, buckets: s.buckets.map(b => b.id === bucketId ? update(b) : b)}), coalesceKey);
+  }, [setStudio]);
+  const setStoryMemory = (text: string) => updateBucket(activeBucket.id, b => ({...b, storyMemory: text}), `storyMemory:${activeBucket.id}`);
+  const setSelectedStyle = (style: FilmStyle | null) => updateBucket(activeBucket.id, b => ({...b, selectedStyle: style}));
+  const setContinuity = (profile: ContinuityProfile) => updateBucket(activeBucket.id, b => ({...b, continuity: profile}));
 
-  // --- NEW FEATURES STATE ---
-  const [storyMemory, setStoryMemory] = useState<string>('');
-  const [selectedStyle, setSelectedStyle] = useState<FilmStyle | null>(null);
-  const [continuity, setContinuity] = useState<ContinuityProfile>({ activeAssetIds: [], lightingLock: null });
-  const [customStyles, setCustomStyles] = useState<FilmStyle[]>([]);
+  // Persistence: nothing is autosaved until the stored project has been restored,
+  // otherwise the initial empty state would overwrite it.
+  const [isProjectLoaded, setIsProjectLoaded] = useState(false);
+  const [projectLoadError, setProjectLoadError] = useState<string | null>(null);
+  const [isArchiveBusy, setIsArchiveBusy] = useState(false);
+
+  // Generation Queue
+  const [jobConcurrency, setJobConcurrency] = useState(DEFAULT_JOB_CONCURRENCY);
+  const [videoTimeoutMs, setVideoTimeoutMs] = useState(DEFAULT_VIDEO_TIMEOUT_MS);
+  const {jobs, enqueue: enqueueJob, cancel: cancelJob, dismiss: dismissJob, clearFinished: clearFinishedJobs} = useJobQueue(jobConcurrency);
+  const bucketJobs = jobs.filter(j => j.bucketId === activeBucket.id && isJobActive(j));
+  const pendingSceneJobs = bucketJobs.filter(j => j.kind === 'video');
+  const pendingAssetJobs = jobs.filter(j => j.kind === 'image' && isJobActive(j));
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+
+  const applyProject = (project: ProjectState) => {
+    const bucket = project.buckets.find(b => b.id === project.activeBucketId) ?? project.buckets[0];
+    studio.reset({buckets: project.buckets, assets: project.assets, customStyles: project.customStyles, filterViews: project.filterViews});
+    setActiveBucketId(bucket.id);
+    setSelectedSceneId(bucket.scenes[bucket.scenes.length - 1]?.id ?? null);
+    setSelectedAssetIds([]);
+  };
 
   // Helpers
   const selectedScene = scenes.find(s => s.id === selectedSceneId);
+  const viewedTake = selectedScene && viewedTakeId && viewedTakeId !== getSelectedTakeId(selectedScene)
+    ? getTakes(selectedScene).find(t => t.id === viewedTakeId)
+    : undefined;
+  // The selected scene as it looks with the previewed take in place.
+  const viewedScene = selectedScene && viewedTake ? {...selectedScene, ...viewedTake, id: selectedScene.id} : selectedScene;
+  const reshootScene = scenes.find(s => s.id === reshootSceneId);
+
+  useEffect(() => setViewedTakeId(null), [selectedSceneId]);
   const selectedAssets = assets.filter(a => selectedAssetIds.includes(a.id));
 
   const getAssetAsImageFile = async (asset: Asset): Promise<ImageFile> => {
      return new Promise((resolve) => {
         const reader = new FileReader();
         reader.onloadend = () => {
+             const file = new File([asset.imageBlob], "asset.png", {type: asset.imageBlob.type});
+             // Provenance that records this image then points at the asset's blob rather than a copy.
+             shareBlobKey(file, asset.imageBlob);
              resolve({
-                file: new File([asset.imageBlob], "asset.png", {type: asset.imageBlob.type}),
+                file,
                 base64: (reader.result as string).split(',')[1]
              });
         }
@@ -84,6 +219,115 @@ const App: React.FC = () => {
     prepare();
   }, [selectedAssetIds, assets]);
 
+  const externalReferences = useMemo(
+    () => [...preparedExternalAssets, ...frameReferences].slice(0, MAX_REFERENCE_IMAGES),
+    [preparedExternalAssets, frameReferences]
+  );
+
+
+  // A reshoot lands as a new take of its scene; if that scene is gone it is placed like any other generation.
+  const addGeneratedScene = useCallback((
+    bucketId: string,
+    params: GenerateVideoParams,
+    {objectUrl, blob, video, duration}: GeneratedVideo,
+    {afterSceneId, reshootSceneId, composition}: Pick<PendingOperation, 'afterSceneId' | 'reshootSceneId' | 'composition'>
+  ) => {
+    const newScene: Scene = {
+      id: generateId(),
+      videoUrl: objectUrl,
+      videoBlob: blob,
+      videoObject: video,
+      prompt: params.prompt,
+      timestamp: Date.now(),
+      duration,
+      settings: settingsOf(params),
+      provenance: provenanceOf(params, composition)
+    };
+    updateBucket(bucketId, b => {
+      const reshot = b.scenes.find(s => s.id === reshootSceneId);
+      if (reshot) {
+        return {...b, scenes: b.scenes.map(s => s === reshot ? addTake(s, {...newScene, trimIn: undefined, trimOut: undefined}) : s)};
+      }
+      const anchor = afterSceneId ? b.scenes.findIndex(s => s.id === afterSceneId) : -1;
+      if (anchor < 0) return {...b, scenes: [...b.scenes, newScene]};
+      return {...b, scenes: [...b.scenes.slice(0, anchor + 1), newScene, ...b.scenes.slice(anchor + 1)]};
+    });
+    // Finished jobs don't pull the user away from what they are looking at:
+    // the result is only selected when nothing in its bucket is.
+    const active = activeBucketRef.current;
+    if (bucketId === active.id) {
+      setSelectedSceneId(current => current && active.scenes.some(s => s.id === current) ? current : reshootSceneId ?? newScene.id);
+    }
+  }, [updateBucket]);
+
+  // Re-attach to Veo operations that were still running when the tab was closed.
+  const resumePendingOperation = useCallback((pending: PendingOperation) => {
+    enqueueJob(
+      {
+        id: pending.id,
+        kind: 'video',
+        label: pending.label,
+        bucketId: pending.bucketId,
+        startedAt: pending.startedAt,
+        afterSceneId: pending.afterSceneId,
+        reshootSceneId: pending.reshootSceneId,
+        expectedDurationMs: EXPECTED_VIDEO_MS[pending.params.model] ?? EXPECTED_VIDEO_MS[VeoModel.VEO],
+      },
+      async signal => {
+        try {
+          // The time already spent in earlier sessions counts against the timeout.
+          const timeoutMs = Math.max(0, videoTimeoutMs - (Date.now() - pending.startedAt));
+          return await resumeVideoGeneration(pending.operationName, {signal, timeoutMs});
+        } finally {
+          removePendingOperation(pending.id).catch(console.error);
+        }
+      },
+      result => addGeneratedScene(pending.bucketId, pending.params, result, pending)
+    );
+  }, [enqueueJob, addGeneratedScene, videoTimeoutMs]);
+
+  useEffect(() => {
+    loadProject()
+      .then(project => {
+        if (project) applyProject(project);
+        setIsProjectLoaded(true);
+      })
+      .catch(error => {
+        // Autosave stays off, so the stored project and its media are left untouched.
+        console.error('Failed to restore project:', error);
+        setProjectLoadError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        loadPendingOperations()
+          .then(operations => operations.forEach(resumePendingOperation))
+          .catch(error => console.error('Failed to resume video operations:', error));
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isProjectLoaded) return;
+    const timeoutId = setTimeout(() => {
+      saveProject({buckets, activeBucketId, assets, customStyles, filterViews})
+        .catch(error => console.error('Autosave failed:', error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isProjectLoaded, buckets, activeBucketId, assets, customStyles, filterViews]);
+
+  // Undo/redo shortcuts; text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   useEffect(() => {
     const checkApiKey = async () => {
@@ -100,7 +344,51 @@ const App: React.FC = () => {
     checkApiKey();
   }, []);
 
-  const handleGenerate = useCallback(async (params: GenerateVideoParams) => {
+  // A rejected key is only fixable by picking another one, so ask right away.
+  const promptForKeyOnAuthError = useCallback((error: unknown): never => {
+    if (error instanceof GenerationError && error.kind === 'auth') setShowApiKeyDialog(true);
+    throw error;
+  }, []);
+
+  /**
+   * Queues a Veo generation whose result is inserted into `bucketId`. `prepare`
+   * runs inside the job, so slow set-up work shows in the render queue and can be cancelled.
+   */
+  const queueVideoGeneration = useCallback((
+    job: Pick<PendingOperation, 'label' | 'bucketId' | 'afterSceneId' | 'reshootSceneId' | 'composition'> & {model: VeoModel},
+    prepare: (signal: AbortSignal) => Promise<GenerateVideoParams>
+  ) => {
+    const {label, bucketId, model, afterSceneId, reshootSceneId, composition} = job;
+    let params: GenerateVideoParams;
+    enqueueJob(
+      {
+        kind: 'video',
+        label,
+        bucketId,
+        afterSceneId,
+        reshootSceneId,
+        expectedDurationMs: EXPECTED_VIDEO_MS[model] ?? EXPECTED_VIDEO_MS[VeoModel.VEO],
+      },
+      async (signal, jobId) => {
+        params = await prepare(signal).catch(promptForKeyOnAuthError);
+        try {
+          return await generateVideo(params, {
+            signal,
+            timeoutMs: videoTimeoutMs,
+            onStarted: operationName => {
+              savePendingOperation({id: jobId, operationName, params, bucketId, label, startedAt: Date.now(), afterSceneId, reshootSceneId, composition})
+                .catch(error => console.error('Failed to persist video operation:', error));
+            },
+          }).catch(promptForKeyOnAuthError);
+        } finally {
+          removePendingOperation(jobId).catch(console.error);
+        }
+      },
+      result => addGeneratedScene(bucketId, params, result, job)
+    );
+  }, [enqueueJob, addGeneratedScene, videoTimeoutMs, promptForKeyOnAuthError]);
+
+  const handleGenerate = useCallback(async (params: GenerateVideoParams, composition: PromptComposition) => {
     if (window.aistudio) {
       try {
         if (!(await window.aistudio.hasSelectedApiKey())) {
@@ -113,34 +401,250 @@ const App: React.FC = () => {
       }
     }
 
-    setAppState(AppState.LOADING);
+    // The result lands in the bucket the generation was started from, even if the user switches away.
+    const bucketId = activeBucket.id;
+    const afterSceneId = insertAfterSelected ? selectedSceneId ?? undefined : undefined;
+    const label = params.prompt || params.mode;
+    setReshootSceneId(null);
     setExternalPrompt(null);
     setInitialFormValues(null);
+    setExternalStartFrame(null);
+    setFrameReferences([]);
     setIsPromptBarCollapsed(true);
+    setSelectedAssetIds([]);
 
-    try {
-      const {objectUrl, blob, video} = await generateVideo(params);
-      
-      const newScene: Scene = {
-        id: generateId(),
-        videoUrl: objectUrl,
-        videoBlob: blob,
-        videoObject: video,
-        prompt: params.prompt,
-        timestamp: Date.now()
-      };
-      
-      setScenes(prev => [...prev, newScene]);
-      setSelectedSceneId(newScene.id);
-      setAppState(AppState.SUCCESS);
-      setSelectedAssetIds([]);
+    queueVideoGeneration(
+      reshootScene
+        ? {label: `Reshoot: ${label}`, bucketId, model: params.model, reshootSceneId: reshootScene.id, composition}
+        : {label, bucketId, model: params.model, afterSceneId, composition},
+      async () => params
+    );
+  }, [activeBucket.id, queueVideoGeneration, insertAfterSelected, selectedSceneId, reshootScene]);
 
-    } catch (error) {
-      console.error('Video generation failed:', error);
-      setAppState(AppState.ERROR);
-      alert(error instanceof Error ? error.message : "Generation failed");
+  // Opens the scene's request in the prompt bar, putting back the style and continuity locks it was made with.
+  const loadIntoPromptBar = (scene: Scene) => {
+    const {params, composition} = promptBarValues(scene);
+    if (composition) {
+      updateBucket(activeBucket.id, b => ({
+        ...b,
+        selectedStyle: composition.style,
+        continuity: {
+          ...composition.continuity,
+          activeAssetIds: composition.continuity.activeAssetIds.filter(id => assets.some(a => a.id === id)),
+        },
+      }));
     }
-  }, []);
+    setInitialFormValues(params);
+    setIsPromptBarCollapsed(false);
+  };
+
+  // The generation lands as a new take of the scene.
+  const handleReshoot = (scene: Scene) => {
+    setReshootSceneId(scene.id);
+    loadIntoPromptBar(scene);
+  };
+
+  // The generation lands as a new scene.
+  const handleLoadIntoPromptBar = (scene: Scene) => {
+    setReshootSceneId(null);
+    loadIntoPromptBar(scene);
+  };
+
+  // Repeats the exact request behind a scene; the result lands as a new take.
+  const handleReshootAsIs = (scene: Scene) => {
+    const params = paramsForReshoot(scene);
+    queueVideoGeneration(
+      {
+        label: `Reshoot: ${params.prompt}`,
+        bucketId: activeBucket.id,
+        model: params.model,
+        reshootSceneId: scene.id,
+        composition: scene.provenance?.composition,
+      },
+      async () => params
+    );
+  };
+
+  const updateScene = (id: string, update: (scene: Scene) => Scene) => {
+    updateBucket(activeBucket.id, b => ({...b, scenes: b.scenes.map(s => s.id === id ? update(s) : s)}));
+  };
+
+  // Generates a connecting shot from the end of one scene into the start of the next and inserts it between them.
+  const handleGenerateBridge = useCallback((sceneId: string) => {
+    const index = scenes.findIndex(s => s.id === sceneId);
+    const from = scenes[index];
+    const to = scenes[index + 1];
+    if (!from || !to) return;
+    queueVideoGeneration(
+      {label: `Bridge: scene ${index + 1} to ${index + 2}`, bucketId: activeBucket.id, model: VeoModel.VEO_FAST, afterSceneId: from.id},
+      signal => prepareBridgeParams(from, to, signal)
+    );
+  }, [scenes, activeBucket.id, queueVideoGeneration]);
+
+  const handleCancelJob = useCallback((id: string) => {
+    cancelJob(id);
+    // A cancelled job must not be resumed on the next load.
+    removePendingOperation(id).catch(console.error);
+  }, [cancelJob]);
+
+  const handleGenerateAsset = useCallback((prompt: string, {name, type}: Pick<Asset, 'name' | 'type'>) => {
+    enqueueJob(
+      {kind: 'image', label: name || prompt, bucketId: activeBucket.id, expectedDurationMs: EXPECTED_IMAGE_MS},
+      signal => generateImage(prompt, signal).catch(promptForKeyOnAuthError),
+      ({imageUrl, blob}) => {
+        const newAsset: Asset = {
+          id: generateId(),
+          imageUrl,
+          imageBlob: blob,
+          prompt,
+          type,
+          name: name || undefined,
+        };
+        setAssets(prev => [newAsset, ...prev]);
+      }
+    );
+  }, [activeBucket.id, enqueueJob, setAssets, promptForKeyOnAuthError]);
+
+  // Queues one image per angle, each drawn from the character's own image. A
+  // view that already exists is replaced when its new version arrives.
+  const handleGenerateTurnaround = (parent: Asset) => {
+    const reference = getAssetAsImageFile(parent);
+    for (const {view, label} of TURNAROUND_VIEWS) {
+      enqueueJob(
+        {kind: 'image', label: `${assetLabel(parent)}: ${label}`, bucketId: activeBucket.id, expectedDurationMs: EXPECTED_IMAGE_MS},
+        async signal => generateImage(turnaroundPrompt(parent, view), signal, await reference).catch(promptForKeyOnAuthError),
+        ({imageUrl, blob}) => {
+          const viewAsset: Asset = {
+            id: generateId(),
+            imageUrl,
+            imageBlob: blob,
+            prompt: parent.prompt,
+            type: 'character',
+            name: `${assetLabel(parent)} (${label})`,
+            bucketId: parent.bucketId,
+            parentAssetId: parent.id,
+            view,
+          };
+          setAssets(prev => prev.some(a => a.id === parent.id)
+            ? [...prev.filter(a => a.parentAssetId !== parent.id || a.view !== view), viewAsset]
+            : prev);
+        }
+      );
+    }
+  };
+
+  const handleUseTurnaroundAsReferences = (parent: Asset) => {
+    setSelectedAssetIds(turnaroundReferenceIds(assets, parent.id));
+    setIsPromptBarCollapsed(false);
+  };
+
+  // Selected assets become References to Video, which takes only so many images.
+  const handleToggleAssetSelection = (asset: Asset) => {
+    setSelectedAssetIds(prev => prev.includes(asset.id)
+      ? prev.filter(id => id !== asset.id)
+      : prev.length < MAX_REFERENCE_IMAGES ? [...prev, asset.id] : prev);
+  };
+
+  const handleMoveScene = (id: string, toIndex: number) => {
+    updateBucket(activeBucket.id, b => {
+      const from = b.scenes.findIndex(s => s.id === id);
+      if (from < 0 || from === toIndex) return b;
+      const scenes = [...b.scenes];
+      const [moved] = scenes.splice(from, 1);
+      scenes.splice(Math.max(0, Math.min(toIndex, scenes.length)), 0, moved);
+      return {...b, scenes};
+    });
+  };
+
+  // Consecutive handle drags on one scene collapse into a single undo step.
+  const handleTrimScene = (id: string, trim: Pick<Scene, 'trimIn' | 'trimOut'>) => {
+    updateBucket(activeBucket.id, b => ({...b, scenes: b.scenes.map(s => s.id === id ? {...s, ...trim} : s)}), `trim:${id}`);
+  };
+
+  // Likewise for dragging a transition's duration slider.
+  const handleSetTransition = (id: string, transitionOut: SceneTransition | undefined) => {
+    updateBucket(activeBucket.id, b => ({...b, scenes: b.scenes.map(s => s.id === id ? {...s, transitionOut} : s)}), `transition:${id}`);
+  };
+
+  // Title cards are recorded clips, so editing one swaps in new media and drops any trims and takes.
+  const handleSaveTitleCard = async (card: TitleCard, film: RenderedFilm, seconds: number, afterSceneId: string | null) => {
+    const duration = await probeVideoDuration(film.blob).catch(() => seconds);
+    const media = {
+      videoUrl: URL.createObjectURL(film.blob),
+      videoBlob: film.blob,
+      videoObject: {mimeType: film.blob.type},
+      prompt: card.title,
+      timestamp: Date.now(),
+      duration,
+      titleCard: card,
+    };
+    const editingId = titleCardEditor?.sceneId;
+    if (editingId) {
+      updateScene(editingId, s => ({
+        ...s, ...media, trimIn: undefined, trimOut: undefined, takes: undefined, selectedTakeId: undefined, settings: undefined,
+      }));
+    } else {
+      const scene: Scene = {id: generateId(), ...media};
+      updateBucket(activeBucket.id, b => {
+        const anchor = afterSceneId ? b.scenes.findIndex(s => s.id === afterSceneId) : -1;
+        return {...b, scenes: [...b.scenes.slice(0, anchor + 1), scene, ...b.scenes.slice(anchor + 1)]};
+      });
+      setSelectedSceneId(scene.id);
+    }
+    setTitleCardEditor(null);
+  };
+
+  const handleSetSceneVolume = (id: string, volume: number) => {
+    updateBucket(activeBucket.id, b => ({...b, scenes: b.scenes.map(s => s.id === id ? {...s, volume} : s)}), `volume:${id}`);
+  };
+
+  const handleSetSceneTags = (id: string, tags: string[]) => {
+    updateBucket(activeBucket.id, b => ({...b, scenes: b.scenes.map(s => s.id === id ? {...s, tags} : s)}));
+  };
+
+  const handleSaveFilterView = (name: string) => {
+    const view = createFilterView(name, libraryFilter);
+    setStudio(s => ({...s, filterViews: [...s.filterViews, view]}));
+  };
+
+  const handleDeleteFilterView = (id: string) => {
+    setStudio(s => ({...s, filterViews: s.filterViews.filter(v => v.id !== id)}));
+  };
+
+  const handleSaveFrameAsset = (frame: CapturedFrame, {name, type}: Pick<Asset, 'name' | 'type'>) => {
+    const newAsset: Asset = {
+      id: generateId(),
+      imageUrl: URL.createObjectURL(frame.file),
+      imageBlob: frame.file,
+      prompt: selectedScene?.prompt ?? name ?? '',
+      type,
+      name,
+    };
+    setAssets(prev => [newAsset, ...prev]);
+  };
+
+  const handleImportAssets = (images: ImportedImage[], type: AssetType) => {
+    const newAssets = images.map(({name, blob}): Asset => ({
+      id: generateId(),
+      imageUrl: URL.createObjectURL(blob),
+      imageBlob: blob,
+      prompt: name,
+      type,
+      name,
+    }));
+    setAssets(prev => [...newAssets, ...prev]);
+  };
+
+  const handleUseFrameAsStart = (frame: CapturedFrame) => {
+    setExternalStartFrame(frame);
+    setIsPromptBarCollapsed(false);
+  };
+
+  // Newest frames win when the reference limit is reached.
+  const handleUseFrameAsReference = (frame: CapturedFrame) => {
+    setFrameReferences(prev => [...prev, frame].slice(-MAX_REFERENCE_IMAGES));
+    setIsPromptBarCollapsed(false);
+  };
 
   const handleExtend = useCallback(async (scene: Scene) => {
     try {
@@ -152,6 +656,7 @@ const App: React.FC = () => {
          const base64 = (reader.result as string).split(',')[1];
          const videoFile: VideoFile = {file, base64};
          
+         setReshootSceneId(null);
          setInitialFormValues({
             prompt: '',
             model: VeoModel.VEO,
@@ -170,6 +675,112 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const handleExportProject = async () => {
+    setIsArchiveBusy(true);
+    try {
+      const archive = await exportProjectArchive({buckets, activeBucketId, assets, customStyles, filterViews});
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `unicorn-films-${new Date().toISOString().slice(0, 10)}${ARCHIVE_EXTENSION}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      console.error('Project export failed:', error);
+      alert(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setIsArchiveBusy(false);
+    }
+  };
+
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const hasContent = assets.length > 0 || buckets.some(b => b.scenes.length > 0);
+    if (hasContent && !confirm('Replace the current project with the imported one?')) return;
+
+    setIsArchiveBusy(true);
+    try {
+      const {project, missingBlobCount} = await importProjectArchive(file);
+      applyProject(project);
+      if (missingBlobCount > 0) {
+        alert(`Imported with ${missingBlobCount} missing file(s); the affected scenes or assets were skipped.`);
+      }
+    } catch (error) {
+      console.error('Project import failed:', error);
+      alert(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsArchiveBusy(false);
+    }
+  };
+
+  // --- Story Bucket management ---
+
+  const switchBucket = (bucket: StoryBucket) => {
+    setActiveBucketId(bucket.id);
+    setSelectedSceneId(bucket.scenes[bucket.scenes.length - 1]?.id ?? null);
+    setSelectedAssetIds([]);
+    setInitialFormValues(null);
+    setReshootSceneId(null);
+  };
+
+  const handleCreateBucket = (name: string) => {
+    const bucket = createBucket(name);
+    setStudio(s => ({...s, buckets: [...s.buckets, bucket]}));
+    switchBucket(bucket);
+  };
+
+  const handleDuplicateBucket = (bucketId: string) => {
+    const source = buckets.find(b => b.id === bucketId);
+    if (!source) return;
+    const copy = createBucket(`${source.name} (Copy)`);
+
+    // Assets scoped to the source bucket are copied too; blobs are shared, not cloned.
+    const assetIdMap = new Map<string, string>();
+    const copiedAssets = assets
+      .filter(a => a.bucketId === source.id)
+      .map(a => {
+        const id = generateId();
+        assetIdMap.set(a.id, id);
+        return {...a, id, bucketId: copy.id};
+      });
+
+    const duplicate: StoryBucket = {
+      ...copy,
+      scenes: source.scenes.map(s => ({...s, id: generateId()})),
+      storyMemory: source.storyMemory,
+      selectedStyle: source.selectedStyle,
+      continuity: {
+        ...source.continuity,
+        activeAssetIds: source.continuity.activeAssetIds.map(id => assetIdMap.get(id) ?? id),
+      },
+      storyboard: source.storyboard.map(item => ({...item, id: generateId(), assetId: assetIdMap.get(item.assetId) ?? item.assetId})),
+      audioTracks: source.audioTracks.map(t => ({...t, id: generateId(), clips: t.clips.map(c => ({...c, id: generateId()}))})),
+      overlays: source.overlays.map(o => ({...o, id: generateId()})),
+    };
+    setStudio(s => ({
+      ...s,
+      buckets: [...s.buckets, duplicate],
+      assets: [...s.assets, ...copiedAssets],
+    }));
+    switchBucket(duplicate);
+  };
+
+  const handleDeleteBucket = (bucketId: string) => {
+    if (buckets.length <= 1) return;
+    const bucket = buckets.find(b => b.id === bucketId);
+    if (!bucket || !confirm(`Delete "${bucket.name}" and its ${bucket.scenes.length} scene(s)?`)) return;
+
+    const remaining = buckets.filter(b => b.id !== bucketId);
+    setStudio(s => ({
+      ...s,
+      buckets: s.buckets.filter(b => b.id !== bucketId),
+      assets: s.assets.filter(a => a.bucketId !== bucketId),
+    }));
+    if (bucketId === activeBucket.id) switchBucket(remaining[0]);
+  };
+
   const handleApiKeyDialogContinue = async () => {
     setShowApiKeyDialog(false);
     if (window.aistudio) {
@@ -179,20 +790,14 @@ const App: React.FC = () => {
 
   const handleDirectorAction = async (action: DirectorAction) => {
       switch(action.type) {
-          case 'GENERATE_ASSET':
-              try {
-                  const { prompt } = action.payload;
-                  const { imageUrl, blob } = await generateImage(prompt);
-                  const newAsset: Asset = {
-                      id: generateId(),
-                      imageUrl,
-                      imageBlob: blob,
-                      prompt,
-                      type: 'character'
-                  };
-                  setAssets(prev => [newAsset, ...prev]);
-              } catch (e) { console.error(e); }
+          case 'GENERATE_ASSET': {
+              const {prompt, name, assetType} = action.payload;
+              handleGenerateAsset(prompt, {
+                  name: typeof name === 'string' ? name : undefined,
+                  type: isAssetType(assetType) ? assetType : inferAssetType(prompt),
+              });
               break;
+          }
           case 'UPDATE_PROMPT':
               setExternalPrompt(action.payload.prompt);
               setIsPromptBarCollapsed(false);
@@ -209,6 +814,20 @@ const App: React.FC = () => {
       {showApiKeyDialog && (
         <ApiKeyDialog onContinue={handleApiKeyDialogContinue} />
       )}
+      {isRenderDialogOpen && (
+        <RenderDialog timeline={activeBucket} title={activeBucket.name} onClose={() => setIsRenderDialogOpen(false)} />
+      )}
+
+      {titleCardEditor && (
+        <TitleCardEditor
+          scenes={scenes}
+          scene={scenes.find(s => s.id === titleCardEditor.sceneId)}
+          defaultAfterSceneId={selectedSceneId}
+          aspectRatio={scenes.find(s => s.settings)?.settings?.aspectRatio ?? AspectRatio.LANDSCAPE}
+          onSave={handleSaveTitleCard}
+          onClose={() => setTitleCardEditor(null)}
+        />
+      )}
 
       <DirectorAssistant onAction={handleDirectorAction} />
       
@@ -233,18 +852,100 @@ const App: React.FC = () => {
                 <PresentationIcon className="w-3 h-3" /> Storyboard
              </button>
         </div>
+
+        <ProjectSwitcher
+           buckets={buckets}
+           activeBucketId={activeBucket.id}
+           onSelectBucket={id => {
+               const bucket = buckets.find(b => b.id === id);
+               if (bucket) switchBucket(bucket);
+           }}
+           onCreateBucket={handleCreateBucket}
+           onRenameBucket={(id, name) => updateBucket(id, b => ({...b, name}))}
+           onDuplicateBucket={handleDuplicateBucket}
+           onDeleteBucket={handleDeleteBucket}
+        />
+
+        <div className="ml-auto flex items-center gap-2">
+             <button
+                onClick={undo}
+                disabled={!studio.canUndo}
+                className="p-1.5 rounded-full text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                title="Undo (Ctrl/Cmd+Z)"
+             >
+                <UndoIcon className="w-4 h-4" />
+             </button>
+             <button
+                onClick={redo}
+                disabled={!studio.canRedo}
+                className="p-1.5 rounded-full text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400 mr-2"
+                title="Redo (Ctrl/Cmd+Shift+Z)"
+             >
+                <RedoIcon className="w-4 h-4" />
+             </button>
+             <button
+                onClick={() => archiveInputRef.current?.click()}
+                disabled={isArchiveBusy}
+                className="px-3 py-1.5 rounded-full text-xs font-medium flex items-center gap-2 text-gray-400 hover:text-white border border-white/10 disabled:opacity-50"
+                title="Import project archive"
+             >
+                <UploadIcon className="w-3 h-3" /> Import
+             </button>
+             <button
+                onClick={handleExportProject}
+                disabled={isArchiveBusy}
+                className="px-3 py-1.5 rounded-full text-xs font-medium flex items-center gap-2 text-gray-400 hover:text-white border border-white/10 disabled:opacity-50"
+                title="Export project archive"
+             >
+                <DownloadIcon className="w-3 h-3" /> {isArchiveBusy ? 'Working...' : 'Export'}
+             </button>
+             <button
+                onClick={() => setIsRenderDialogOpen(true)}
+                disabled={scenes.length === 0}
+                className="ml-2 px-3 py-1.5 rounded-full text-xs font-medium flex items-center gap-2 bg-[#E07A5F] hover:bg-[#c96a51] text-white disabled:opacity-50"
+                title="Render the timeline to a single video"
+             >
+                <FilmIcon className="w-3 h-3" /> Render
+             </button>
+             <input
+                type="file"
+                ref={archiveInputRef}
+                onChange={handleImportProject}
+                accept=".zip,application/zip"
+                className="hidden"
+             />
+        </div>
       </header>
 
+      {projectLoadError && (
+        <div className="px-6 py-2 bg-red-900/60 border-b border-red-500/30 text-xs text-red-100 shrink-0">
+          The saved project could not be opened ({projectLoadError}). Autosave is off until you reload, so nothing you do now is saved over it.
+        </div>
+      )}
+
       <div className="flex-1 flex overflow-hidden">
         
         {/* Bin System / Story Bucket */}
         <BinSystem 
-           assets={assets}
+           assets={bucketAssets}
            scenes={scenes}
-           onAddAsset={(a) => setAssets(prev => [a, ...prev])}
-           onRemoveAsset={(id) => setAssets(prev => prev.filter(a => a.id !== id))}
+           selectedSceneId={selectedSceneId}
+           activeBucketId={activeBucket.id}
+           onGenerateAsset={handleGenerateAsset}
+           onImportAssets={handleImportAssets}
+           filter={libraryFilter}
+           onChangeFilter={setLibraryFilter}
+           filterViews={filterViews}
+           onSaveFilterView={handleSaveFilterView}
+           onDeleteFilterView={handleDeleteFilterView}
+           tagSuggestions={tagSuggestions}
+           pendingAssetJobs={pendingAssetJobs}
+           onUpdateAsset={(asset) => setAssets(prev => prev.map(a => a.id === asset.id ? asset : a))}
+           onRemoveAsset={(id) => setAssets(prev => prev.filter(a => a.id !== id && a.parentAssetId !== id))}
+           onGenerateTurnaround={handleGenerateTurnaround}
+           onUseTurnaroundAsReferences={handleUseTurnaroundAsReferences}
            selectedAssetIds={selectedAssetIds}
-           onSelectAsset={(asset) => setSelectedAssetIds(prev => prev.includes(asset.id) ? prev.filter(id => id !== asset.id) : [...prev, asset.id])}
+           onSelectAsset={handleToggleAssetSelection}
            onUseScript={(script) => {
                setExternalPrompt(script);
                setIsPromptBarCollapsed(false);
@@ -259,20 +960,76 @@ const App: React.FC = () => {
           {activeView === 'studio' ? (
               <>
                 <div className={`flex-1 flex items-center justify-center p-4 md:p-8 overflow-hidden relative transition-all duration-300 ${isPromptBarCollapsed ? 'pb-24' : 'pb-4'}`}>
-                    {appState === AppState.LOADING ? (
-                        <LoadingIndicator />
+                    <JobQueuePanel
+                        jobs={jobs}
+                        concurrency={jobConcurrency}
+                        onChangeConcurrency={setJobConcurrency}
+                        videoTimeoutMs={videoTimeoutMs}
+                        onChangeVideoTimeout={setVideoTimeoutMs}
+                        onCancelJob={handleCancelJob}
+                        onDismissJob={dismissJob}
+                        onClearFinished={clearFinishedJobs}
+                    />
+                    {isSequenceMode ? (
+                        <SequencePlayer
+                            key={activeBucket.id}
+                            ref={sequencePlayerRef}
+                            scenes={scenes}
+                            audioTracks={activeBucket.audioTracks}
+                            overlays={activeBucket.overlays}
+                            startSceneId={selectedSceneId}
+                            onPositionChange={setSequencePosition}
+                            onExit={() => setIsSequenceMode(false)}
+                        />
                     ) : selectedScene ? (
                         <div className="w-full h-full flex flex-col items-center justify-center animate-fade-in">
-                            <video 
-                                src={selectedScene.videoUrl} 
-                                controls 
-                                autoPlay 
-                                className="max-w-full max-h-full shadow-2xl rounded-xl border border-white/10"
+                            <TrimmedVideo
+                                ref={playerRef}
+                                scene={viewedScene!}
+                                controls
+                                autoPlay
+                                className="max-w-full min-h-0 flex-1 shadow-2xl rounded-xl border border-white/10"
                             />
-                            <div className="mt-4 text-sm text-[#D4A373] font-mono max-w-2xl text-center truncate px-4 glass-panel p-2 rounded-lg">
-                                {selectedScene.prompt}
+                            <div className="mt-3 w-full flex justify-center items-center gap-2">
+                                {!viewedTake && <TrimEditor scene={selectedScene} onChangeTrim={trim => handleTrimScene(selectedScene.id, trim)} />}
+                                <FrameGrabber
+                                    videoRef={playerRef}
+                                    defaultName={`Scene ${scenes.indexOf(selectedScene) + 1}`}
+                                    onSaveAsset={handleSaveFrameAsset}
+                                    onUseAsStartFrame={handleUseFrameAsStart}
+                                    onUseAsReference={handleUseFrameAsReference}
+                                />
                             </div>
+                            {!selectedScene.titleCard && (
+                                <div className="mt-2 w-full flex justify-center">
+                                    <TakesPanel
+                                        scene={selectedScene}
+                                        viewedTakeId={viewedTake?.id ?? getSelectedTakeId(selectedScene)}
+                                        onViewTake={setViewedTakeId}
+                                        onSelectTake={takeId => {
+                                            updateScene(selectedScene.id, s => selectTake(s, takeId));
+                                            setViewedTakeId(null);
+                                        }}
+                                        onRemoveTake={takeId => {
+                                            updateScene(selectedScene.id, s => removeTake(s, takeId));
+                                            setViewedTakeId(null);
+                                        }}
+                                        onReshoot={() => handleReshoot(selectedScene)}
+                                        onReshootAsIs={() => handleReshootAsIs(selectedScene)}
+                                    />
+                                </div>
+                            )}
+                            <SceneInspector
+                                scene={viewedScene!}
+                                assets={assets}
+                                onLoadIntoPromptBar={() => handleLoadIntoPromptBar(viewedScene!)}
+                                onRegenerate={() => handleReshootAsIs(viewedScene!)}
+                                onChangeTags={tags => handleSetSceneTags(viewedScene!.id, tags)}
+                                tagSuggestions={tagSuggestions}
+                            />
                         </div>
+                    ) : pendingSceneJobs.length > 0 ? (
+                        <LoadingIndicator job={pendingSceneJobs[pendingSceneJobs.length - 1]} onCancel={handleCancelJob} />
                     ) : (
                         <div className="text-center text-white/40">
                             <h2 className="text-3xl font-light mb-2 text-[#D4A373] tracking-widest">DESERT MIRAGE</h2>
@@ -295,36 +1052,71 @@ const App: React.FC = () => {
                         </button>
                     </div>
 
+                    {!isPromptBarCollapsed && reshootScene && (
+                        <div className="mb-2 flex items-center justify-center gap-3 text-xs text-[#D4A373]">
+                            <span>Reshooting Scene {scenes.indexOf(reshootScene) + 1}: the result is added as a new take.</span>
+                            <button onClick={() => setReshootSceneId(null)} className="text-white/40 hover:text-white underline">Generate a new scene instead</button>
+                        </div>
+                    )}
                     {!isPromptBarCollapsed && (
                         <PromptForm 
                             onGenerate={handleGenerate} 
                             initialValues={initialFormValues}
                             externalPrompt={externalPrompt}
-                            externalReferences={preparedExternalAssets}
+                            externalReferences={externalReferences}
+                            externalStartFrame={externalStartFrame}
                             
                             // New Props
-                            assets={assets}
+                            assets={bucketAssets}
                             selectedStyle={selectedStyle}
                             onSelectStyle={setSelectedStyle}
                             continuity={continuity}
                             onSetContinuity={setContinuity}
                             customStyles={customStyles}
-                            onAddCustomStyle={s => setCustomStyles([...customStyles, s])}
+                            onAddCustomStyle={style => setStudio(s => ({...s, customStyles: [...s.customStyles, style]}))}
                         />
                     )}
                 </div>
 
                 <Timeline 
                     scenes={scenes}
+                    audioTracks={activeBucket.audioTracks}
+                    overlays={activeBucket.overlays}
                     selectedSceneId={selectedSceneId}
-                    onSelectScene={setSelectedSceneId}
+                    onSelectScene={(id) => {
+                        setSelectedSceneId(id);
+                        if (isSequenceMode) sequencePlayerRef.current?.seekToScene(id);
+                    }}
+                    isSequenceMode={isSequenceMode}
+                    onToggleSequenceMode={() => setIsSequenceMode(!isSequenceMode)}
+                    sequencePosition={isSequenceMode ? sequencePosition : null}
                     onDeleteScene={(id) => {
-                        setScenes(prev => prev.filter(s => s.id !== id));
+                        updateBucket(activeBucket.id, b => ({...b, scenes: b.scenes.filter(s => s.id !== id)}));
                         if (selectedSceneId === id) setSelectedSceneId(null);
                     }}
                     onExtendScene={handleExtend}
+                    onReshootScene={handleReshoot}
+                    onMoveScene={handleMoveScene}
+                    onSetTransition={handleSetTransition}
+                    onGenerateBridge={handleGenerateBridge}
+                    onChangeAudioTracks={(audioTracks, coalesceKey) => updateBucket(activeBucket.id, b => ({...b, audioTracks}), coalesceKey)}
+                    onChangeOverlays={(overlays, coalesceKey) => updateBucket(activeBucket.id, b => ({...b, overlays}), coalesceKey)}
+                    onSetSceneVolume={handleSetSceneVolume}
+                    filter={libraryFilter}
+                    onChangeFilter={setLibraryFilter}
+                    filterViews={filterViews}
+                    onSaveFilterView={handleSaveFilterView}
+                    onDeleteFilterView={handleDeleteFilterView}
+                    tagSuggestions={tagSuggestions}
+                    onAddTitleCard={() => setTitleCardEditor({})}
+                    onEditTitleCard={scene => setTitleCardEditor({sceneId: scene.id})}
+                    insertAfterSelected={insertAfterSelected}
+                    onToggleInsertAfterSelected={() => setInsertAfterSelected(!insertAfterSelected)}
+                    pendingJobs={pendingSceneJobs}
+                    onCancelJob={handleCancelJob}
                     onAddScene={() => {
                         setSelectedSceneId(null);
+                        setReshootSceneId(null);
                         setInitialFormValues(null);
                         setExternalPrompt(null);
                         setSelectedAssetIds([]);
@@ -335,7 +1127,9 @@ const App: React.FC = () => {
               </>
           ) : (
               <Storyboard 
-                 assets={assets}
+                 assets={bucketAssets}
+                 items={activeBucket.storyboard}
+                 onChangeItems={(items, coalesceKey) => updateBucket(activeBucket.id, b => ({...b, storyboard: items}), coalesceKey)}
                  onInjectToTimeline={(data) => {
                      setExternalPrompt(data.prompt);
                      setActiveView('studio');
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ASSET_TYPE_OPTIONS } from '../services/assets';
+import { Asset, AssetType } from '../types';
+import { XMarkIcon } from './icons';
+import TagEditor from './TagEditor';
+
+interface AssetEditorProps {
+  asset: Asset;
+  onSave: (asset: Asset) => void;
+  onClose: () => void;
+  tagSuggestions: string[];
+}
+
+export const AssetTypePicker: React.FC<{ value: AssetType; onChange: (type: AssetType) => void }> = ({ value, onChange }) => (
+  <div className="flex gap-1">
+    {ASSET_TYPE_OPTIONS.map(option => (
+      <button
+        key={option.type}
+        type="button"
+        onClick={() => onChange(option.type)}
+        className={`flex-1 py-1 rounded text-[10px] uppercase font-bold transition-colors ${
+          value === option.type ? 'bg-[#D4A373] text-[#2F3E32]' : 'bg-black/20 text-white/50 hover:text-white'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+/**
+ * Renames, re-describes, retypes and tags a bin asset. The description is what
+ * continuity prompts fall back on when the asset has no name; the image is kept.
+ */
+const AssetEditor: React.FC<AssetEditorProps> = ({ asset, onSave, onClose, tagSuggestions }) => {
+  const [name, setName] = useState(asset.name ?? '');
+  const [prompt, setPrompt] = useState(asset.prompt);
+  const [type, setType] = useState<AssetType>(asset.type);
+  const [tags, setTags] = useState(asset.tags ?? []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ ...asset, name: name.trim() || undefined, prompt: prompt.trim() || asset.prompt, type, tags });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="glass-panel p-3 rounded-xl space-y-2 animate-fade-in">
+      <div className="flex items-center gap-2">
+        <img src={asset.imageUrl} className="w-10 h-10 rounded object-cover border border-white/10" />
+        <span className="flex-1 text-xs font-semibold text-[#D4A373] uppercase tracking-wider">Edit Asset</span>
+        <button type="button" onClick={onClose} className="p-0.5 text-white/40 hover:text-white" title="Cancel">
+          <XMarkIcon className="w-3 h-3" />
+        </button>
+      </div>
+      <input
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Name (e.g. Detective John)"
+        autoFocus
+        className="w-full bg-black/30 border border-white/10 rounded px-2 py-1.5 text-xs text-white placeholder-white/30 focus:outline-none focus:border-[#D4A373]"
+      />
+      <textarea
+        value={prompt}
+        onChange={e => setPrompt(e.target.value)}
+        placeholder="Description"
+        className="w-full bg-black/30 border border-white/10 rounded p-2 text-xs text-white placeholder-white/30 focus:outline-none focus:border-[#D4A373] resize-none h-16"
+      />
+      <AssetTypePicker value={type} onChange={setType} />
+      <TagEditor tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+      <button type="submit" className="w-full bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] py-1.5 rounded text-xs font-bold">
+        Save
+      </button>
+    </form>
+  );
+};
+
+export default AssetEditor;
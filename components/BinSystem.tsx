@@ -2,16 +2,35 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import { generateImage, generateScript, generateScoreMetadata, generateTransitionPrompts } from '../services/geminiService';
-import { Asset, Scene, StoryBucket } from '../types';
-import { ArrowRightIcon, FilmIcon, GridIcon, MusicIcon, PenToolIcon, PlusIcon, ScissorsIcon, SparklesIcon, XMarkIcon } from './icons';
+import React, { useRef, useState } from 'react';
+import { ASSET_TYPE_OPTIONS, assetLabel, IMPORTABLE_IMAGE_TYPES, ImportedImage, prepareImageImport } from '../services/assets';
+import { generateScript, generateScoreMetadata, generateTransitionPrompts, WithFallback } from '../services/geminiService';
+import { assetMatches, isFilterActive } from '../services/search';
+import { canHaveTurnaround, turnaroundSet } from '../services/turnaround';
+import { Asset, AssetType, GenerationJob, LibraryFilter, SavedFilterView, Scene, StoryBucket } from '../types';
+import AssetEditor, { AssetTypePicker } from './AssetEditor';
+import { ArrowRightIcon, FilmIcon, GlobeIcon, GridIcon, MusicIcon, PencilIcon, PenToolIcon, PlusIcon, ScissorsIcon, SparklesIcon, TurnaroundIcon, UploadIcon, XMarkIcon } from './icons';
+import LibraryFilterBar from './LibraryFilterBar';
+import TurnaroundStrip from './TurnaroundStrip';
 
 interface BinSystemProps {
   assets: Asset[];
   scenes: Scene[];
-  onAddAsset: (asset: Asset) => void;
+  selectedSceneId: string | null;
+  activeBucketId: string;
+  onGenerateAsset: (prompt: string, details: Pick<Asset, 'name' | 'type'>) => void;
+  onImportAssets: (images: ImportedImage[], type: AssetType) => void;
+  filter: LibraryFilter;
+  onChangeFilter: (filter: LibraryFilter) => void;
+  filterViews: SavedFilterView[];
+  onSaveFilterView: (name: string) => void;
+  onDeleteFilterView: (id: string) => void;
+  tagSuggestions: string[];
+  pendingAssetJobs: GenerationJob[];
+  onUpdateAsset: (asset: Asset) => void;
   onRemoveAsset: (id: string) => void;
+  onGenerateTurnaround: (asset: Asset) => void;
+  onUseTurnaroundAsReferences: (asset: Asset) => void;
   onSelectAsset: (asset: Asset) => void;
   selectedAssetIds: string[];
   onUseScript: (script: string) => void;
@@ -23,13 +42,24 @@ interface BinSystemProps {
 
 type Tab = 'bucket' | 'script' | 'score' | 'b-roll';
 
-const generateId = () => globalThis.crypto?.randomUUID() ?? (Date.now().toString(36) + Math.random().toString(36).slice(2));
-
 const BinSystem: React.FC<BinSystemProps> = ({ 
   assets, 
   scenes,
-  onAddAsset, 
+  selectedSceneId,
+  activeBucketId,
+  onGenerateAsset,
+  onImportAssets,
+  filter,
+  onChangeFilter,
+  filterViews,
+  onSaveFilterView,
+  onDeleteFilterView,
+  tagSuggestions,
+  pendingAssetJobs,
+  onUpdateAsset,
   onRemoveAsset, 
+  onGenerateTurnaround,
+  onUseTurnaroundAsReferences,
   onSelectAsset, 
   selectedAssetIds,
   onUseScript,
@@ -38,34 +68,87 @@ const BinSystem: React.FC<BinSystemProps> = ({
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('bucket');
   const [prompt, setPrompt] = useState('');
+  const [assetName, setAssetName] = useState('');
+  const [assetType, setAssetType] = useState<AssetType>('character');
+  const [editingAssetId, setEditingAssetId] = useState<string | null>(null);
+  // Character whose turnaround views are shown under its tile.
+  const [openTurnaroundId, setOpenTurnaroundId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [scriptInput, setScriptInput] = useState('');
   const [scriptOutput, setScriptOutput] = useState('');
   const [musicPrompt, setMusicPrompt] = useState('');
   const [scores, setScores] = useState<any[]>([]);
-  const [bRollIdeas, setBRollIdeas] = useState<string[]>([]);
+  const [bRollIdeas, setBRollIdeas] = useState<WithFallback<string[]> | null>(null);
+  const [toolError, setToolError] = useState<string | null>(null);
 
-  const handleGenerateAsset = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!prompt.trim()) return;
+  // B-roll bridges out of the selected scene (or the last one) and into the scene after it.
+  const selectedIndex = scenes.findIndex(s => s.id === selectedSceneId);
+  const bridgeIndex = selectedIndex >= 0 ? selectedIndex : scenes.length - 1;
+  const bridgeFrom = scenes[bridgeIndex];
+  const bridgeTo = scenes[bridgeIndex + 1];
+
+  // Runs one of the writing tools, reporting failures inline instead of leaving the spinner up.
+  const runTool = async (task: () => Promise<void>) => {
     setIsGenerating(true);
+    setToolError(null);
     try {
-      const { imageUrl, blob } = await generateImage(prompt);
-      onAddAsset({
-        id: generateId(),
-        imageUrl,
-        imageBlob: blob,
-        prompt,
-        type: 'character' // Defaulting to character for now
-      });
-      setPrompt('');
+      await task();
     } catch (error) {
-      console.error(error);
+      console.error('Bin tool failed:', error);
+      setToolError(error instanceof Error ? error.message : 'Generation failed');
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleGenerateAsset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim()) return;
+    // Queued in the render queue; the asset appears in the grid once it is ready.
+    onGenerateAsset(prompt, { name: assetName.trim() || undefined, type: assetType });
+    setPrompt('');
+    setAssetName('');
+  };
+
+  // Imports every acceptable file as the type picked in the Add Asset form;
+  // files that fail validation are listed instead of aborting the batch.
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsImporting(true);
+    setImportErrors([]);
+    const results = await Promise.allSettled(files.map(prepareImageImport));
+    const images = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    setImportErrors(results.flatMap(r => r.status === 'rejected' ? [r.reason instanceof Error ? r.reason.message : String(r.reason)] : []));
+    if (images.length > 0) onImportAssets(images, assetType);
+    setIsImporting(false);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    importFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    importFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const editingAsset = assets.find(a => a.id === editingAssetId);
+  const visibleAssets = assets.filter(a => assetMatches(a, filter));
+  // Turnaround views sit under their character rather than in the grid.
+  const isTopLevel = (asset: Asset) => !asset.parentAssetId || !assets.some(a => a.id === asset.parentAssetId);
+  const assetGroups = ASSET_TYPE_OPTIONS
+    .map(option => ({ ...option, assets: visibleAssets.filter(a => a.type === option.type && isTopLevel(a)) }))
+    .filter(group => group.assets.length > 0);
+
   const TabButton: React.FC<{ id: Tab; icon: React.ReactNode; label?: string }> = ({ id, icon, label }) => (
     <button
       onClick={() => setActiveTab(id)}
@@ -90,7 +173,12 @@ const BinSystem: React.FC<BinSystemProps> = ({
 
       <div className="flex-1 overflow-y-auto p-4 scrollbar-thin">
         {activeTab === 'bucket' && (
-          <div className="space-y-6 animate-fade-in">
+          <div
+            className={`space-y-6 animate-fade-in rounded-xl transition-colors ${isDraggingFiles ? 'bg-[#D4A373]/10 ring-2 ring-[#D4A373]/60' : ''}`}
+            onDragOver={(e) => { if (isFileDrag(e)) { e.preventDefault(); setIsDraggingFiles(true); } }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false); }}
+            onDrop={handleDrop}
+          >
              {/* Story Memory */}
              <div className="bg-black/20 rounded-xl p-3 border border-white/10">
                  <h3 className="text-[10px] font-bold text-[#E07A5F] uppercase tracking-wider mb-2">Story Memory</h3>
@@ -105,49 +193,170 @@ const BinSystem: React.FC<BinSystemProps> = ({
              {/* Asset Generator */}
              <div className="glass-panel p-4 rounded-xl">
                <h3 className="text-xs font-semibold text-[#D4A373] uppercase tracking-wider mb-3">Add Asset</h3>
-               <form onSubmit={handleGenerateAsset}>
+               <form onSubmit={handleGenerateAsset} className="space-y-2">
+                 <AssetTypePicker value={assetType} onChange={setAssetType} />
+                 <input
+                   value={assetName}
+                   onChange={(e) => setAssetName(e.target.value)}
+                   placeholder="Name (optional)"
+                   className="w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white placeholder-white/30 focus:outline-none focus:border-[#D4A373]"
+                 />
                  <textarea
                    value={prompt}
                    onChange={(e) => setPrompt(e.target.value)}
-                   placeholder="Character or prop description..."
-                   className="w-full bg-black/30 border border-white/10 rounded-lg p-2 text-xs text-white placeholder-white/30 focus:outline-none focus:border-[#D4A373] resize-none h-16 mb-2"
+                   placeholder="Character, location or prop description..."
+                   className="w-full bg-black/30 border border-white/10 rounded-lg p-2 text-xs text-white placeholder-white/30 focus:outline-none focus:border-[#D4A373] resize-none h-16"
                  />
                  <button
                    type="submit"
-                   disabled={isGenerating || !prompt.trim()}
+                   disabled={!prompt.trim()}
                    className="w-full flex items-center justify-center gap-2 bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] py-2 rounded-lg text-xs font-bold transition-colors"
                  >
-                   {isGenerating ? "Creating..." : "Generate Asset"}
+                   Generate Asset
                  </button>
                </form>
+               <button
+                 onClick={() => importInputRef.current?.click()}
+                 disabled={isImporting}
+                 className="mt-2 w-full flex items-center justify-center gap-2 border border-dashed border-white/20 hover:border-[#D4A373] text-white/60 hover:text-white py-2 rounded-lg text-xs transition-colors disabled:opacity-50"
+                 title="PNG, JPEG or WebP; you can also drop images anywhere on the bin"
+               >
+                 <UploadIcon className="w-3 h-3" /> {isImporting ? 'Importing...' : 'Import Images'}
+               </button>
+               <input
+                 ref={importInputRef}
+                 type="file"
+                 accept={IMPORTABLE_IMAGE_TYPES.join(',')}
+                 multiple
+                 className="hidden"
+                 onChange={handleImportChange}
+               />
+               {importErrors.length > 0 && (
+                 <div className="mt-2 space-y-0.5">
+                   {importErrors.map((message, i) => <p key={i} className="text-[10px] text-red-300/80">{message}</p>)}
+                 </div>
+               )}
              </div>
 
-             {/* Asset Grid */}
-             <div className="grid grid-cols-2 gap-3">
-               {assets.map((asset) => (
-                 <div 
-                   key={asset.id} 
-                   onClick={() => onSelectAsset(asset)}
-                   className={`relative aspect-square group rounded-xl overflow-hidden cursor-pointer border-2 transition-all ${
-                     selectedAssetIds.includes(asset.id) 
-                       ? 'border-[#E07A5F] ring-2 ring-[#E07A5F]/50' 
-                       : 'border-white/5 hover:border-white/30'
-                   }`}
-                 >
-                   <img src={asset.imageUrl} className="w-full h-full object-cover" />
-                   <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                     <button onClick={(e) => { e.stopPropagation(); onRemoveAsset(asset.id); }} className="p-1.5 bg-red-500/80 rounded-full text-white">
-                       <XMarkIcon className="w-3 h-3" />
-                     </button>
+             {editingAsset && (
+               <AssetEditor
+                 key={editingAsset.id}
+                 asset={editingAsset}
+                 onSave={(asset) => { onUpdateAsset(asset); setEditingAssetId(null); }}
+                 onClose={() => setEditingAssetId(null)}
+                 tagSuggestions={tagSuggestions}
+               />
+             )}
+
+             {/* Asset Grid, grouped by type */}
+             <LibraryFilterBar
+               filter={filter}
+               onChange={onChangeFilter}
+               scope="assets"
+               tags={tagSuggestions}
+               views={filterViews}
+               onSaveView={onSaveFilterView}
+               onDeleteView={onDeleteFilterView}
+               matchCount={visibleAssets.length}
+               total={assets.length}
+             />
+             {pendingAssetJobs.length > 0 && (
+               <div className="grid grid-cols-2 gap-3">
+                 {pendingAssetJobs.map((job) => (
+                   <div key={job.id} className="relative aspect-square rounded-xl border-2 border-dashed border-[#D4A373]/40 bg-black/30 flex flex-col items-center justify-center p-2 text-center" title={job.label}>
+                     <div className="w-6 h-6 border-2 border-t-transparent border-[#D4A373] rounded-full animate-spin mb-2"></div>
+                     <span className="text-[10px] text-white/50 line-clamp-2">{job.label}</span>
                    </div>
-                   {selectedAssetIds.includes(asset.id) && (
-                     <div className="absolute top-1 right-1 w-4 h-4 bg-[#E07A5F] rounded-full flex items-center justify-center">
-                        <PlusIcon className="w-2 h-2 text-white" />
-                     </div>
-                   )}
+                 ))}
+               </div>
+             )}
+             {isFilterActive(filter) && assets.length > 0 && visibleAssets.length === 0 && (
+               <p className="text-center text-[10px] text-white/30 italic">No assets match.</p>
+             )}
+             {assetGroups.map(group => (
+               <div key={group.type} className="space-y-2">
+                 <h3 className="text-[10px] font-bold text-white/40 uppercase tracking-wider">{group.plural}</h3>
+                 <div className="grid grid-cols-2 grid-flow-row-dense gap-3">
+                   {group.assets.map((asset) => {
+                     const views = turnaroundSet(assets, asset.id);
+                     return (
+                       <React.Fragment key={asset.id}>
+                         <div 
+                           onClick={() => onSelectAsset(asset)}
+                           className={`relative aspect-square group rounded-xl overflow-hidden cursor-pointer border-2 transition-all ${
+                             selectedAssetIds.includes(asset.id) 
+                               ? 'border-[#E07A5F] ring-2 ring-[#E07A5F]/50' 
+                               : 'border-white/5 hover:border-white/30'
+                           }`}
+                         >
+                           <img src={asset.imageUrl} className="w-full h-full object-cover" title={asset.prompt} />
+                           <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                             <button
+                               onClick={(e) => { e.stopPropagation(); setEditingAssetId(asset.id); }}
+                               className="p-1.5 bg-white/20 rounded-full text-white"
+                               title="Rename, describe or retype"
+                             >
+                               <PencilIcon className="w-3 h-3" />
+                             </button>
+                             {canHaveTurnaround(asset) && (
+                               <button
+                                 onClick={(e) => { e.stopPropagation(); onGenerateTurnaround(asset); setOpenTurnaroundId(asset.id); }}
+                                 className="p-1.5 bg-white/20 rounded-full text-white"
+                                 title={views.length > 0 ? 'Redraw turnaround views' : 'Generate turnaround: front, three-quarter, profile and back'}
+                               >
+                                 <TurnaroundIcon className="w-3 h-3" />
+                               </button>
+                             )}
+                             <button
+                               onClick={(e) => { e.stopPropagation(); onUpdateAsset({...asset, bucketId: asset.bucketId ? undefined : activeBucketId}); }}
+                               className={`p-1.5 rounded-full text-white ${asset.bucketId ? 'bg-white/20' : 'bg-[#D4A373]/80'}`}
+                               title={asset.bucketId ? 'Only in this story (click to share)' : 'Shared across stories (click to scope)'}
+                             >
+                               <GlobeIcon className="w-3 h-3" />
+                             </button>
+                             <button onClick={(e) => { e.stopPropagation(); onRemoveAsset(asset.id); }} className="p-1.5 bg-red-500/80 rounded-full text-white">
+                               <XMarkIcon className="w-3 h-3" />
+                             </button>
+                           </div>
+                           <div className="absolute bottom-0 inset-x-0 px-1.5 pt-3 pb-1 bg-gradient-to-t from-black/80 to-transparent flex items-end gap-1">
+                             <span className="flex-1 min-w-0 truncate text-[9px] text-white/90 font-medium">{assetLabel(asset)}</span>
+                             {asset.bucketId && (
+                               <span className="shrink-0 px-1 py-0.5 bg-black/70 rounded text-[8px] uppercase font-bold text-[#D4A373]">Story</span>
+                             )}
+                           </div>
+                           {selectedAssetIds.includes(asset.id) && (
+                             <div className="absolute top-1 right-1 w-4 h-4 bg-[#E07A5F] rounded-full flex items-center justify-center">
+                                <PlusIcon className="w-2 h-2 text-white" />
+                             </div>
+                           )}
+                           {views.length > 0 && (
+                             <button
+                               onClick={(e) => { e.stopPropagation(); setOpenTurnaroundId(openTurnaroundId === asset.id ? null : asset.id); }}
+                               className={`absolute top-1 left-1 px-1.5 py-0.5 rounded text-[8px] uppercase font-bold ${
+                                 openTurnaroundId === asset.id ? 'bg-[#D4A373] text-[#2F3E32]' : 'bg-black/70 text-[#D4A373]'
+                               }`}
+                               title="Show turnaround views"
+                             >
+                               {views.length} Views
+                             </button>
+                           )}
+                         </div>
+                         {openTurnaroundId === asset.id && (
+                           <TurnaroundStrip
+                             views={views}
+                             selectedAssetIds={selectedAssetIds}
+                             onSelectAsset={onSelectAsset}
+                             onRemoveAsset={onRemoveAsset}
+                             onUseAsReferences={() => onUseTurnaroundAsReferences(asset)}
+                             onRegenerate={() => onGenerateTurnaround(asset)}
+                           />
+                         )}
+                       </React.Fragment>
+                     );
+                   })}
                  </div>
-               ))}
-             </div>
+               </div>
+             ))}
           </div>
         )}
 
@@ -156,12 +365,10 @@ const BinSystem: React.FC<BinSystemProps> = ({
              <div className="glass-panel p-4 rounded-xl animate-fade-in">
                  <h3 className="text-xs font-semibold text-[#D4A373] uppercase tracking-wider mb-3">Script Writer</h3>
                  <textarea value={scriptInput} onChange={e => setScriptInput(e.target.value)} className="w-full bg-black/30 text-xs text-white p-2 rounded h-32 mb-2" placeholder="Describe scene..."/>
-                 <button onClick={async () => {
-                     setIsGenerating(true);
-                     const res = await generateScript(scriptInput);
-                     setScriptOutput(res);
-                     setIsGenerating(false);
-                 }} className="w-full bg-[#D4A373] text-[#2F3E32] py-2 rounded text-xs font-bold mb-4">Refine</button>
+                 <button onClick={() => runTool(async () => {
+                     setScriptOutput(await generateScript(scriptInput));
+                 })} className="w-full bg-[#D4A373] text-[#2F3E32] py-2 rounded text-xs font-bold mb-4">Refine</button>
+                 {toolError && <p className="text-[10px] text-red-300/80 mb-2">{toolError}</p>}
                  {scriptOutput && (
                      <div className="bg-black/20 p-2 rounded border border-white/10">
                          <p className="text-xs text-white/80 whitespace-pre-wrap">{scriptOutput}</p>
@@ -177,20 +384,28 @@ const BinSystem: React.FC<BinSystemProps> = ({
 
         {activeTab === 'b-roll' && (
              <div className="glass-panel p-4 rounded-xl animate-fade-in text-center">
+                 <p className="mb-3 text-[10px] text-white/40">
+                     {bridgeFrom
+                       ? bridgeTo ? `Bridging scene ${bridgeIndex + 1} into scene ${bridgeIndex + 2}` : `Following scene ${bridgeIndex + 1}`
+                       : 'Generate a scene first to get transition ideas'}
+                 </p>
                  <button 
-                    onClick={async () => {
-                        setIsGenerating(true);
-                        // Mocking behavior for now as we don't have scenes prop fully wired in bin
-                        const ideas = await generateTransitionPrompts("General scene"); 
-                        setBRollIdeas(ideas);
-                        setIsGenerating(false);
-                    }}
-                    className="w-full bg-white/10 hover:bg-white/20 text-white py-3 rounded-lg text-xs font-bold"
+                    onClick={() => runTool(async () => {
+                        setBRollIdeas(await generateTransitionPrompts(bridgeFrom.prompt, bridgeTo?.prompt));
+                    })}
+                    disabled={!bridgeFrom || isGenerating}
+                    className="w-full bg-white/10 hover:bg-white/20 disabled:opacity-40 text-white py-3 rounded-lg text-xs font-bold"
                  >
                      {isGenerating ? "Thinking..." : "Generate Transitions"}
                  </button>
+                 {toolError && <p className="mt-2 text-[10px] text-red-300/80">{toolError}</p>}
+                 {bRollIdeas?.isFallback && (
+                     <p className="mt-2 text-[10px] text-amber-200/80" title={bRollIdeas.error?.message}>
+                         The model's suggestions could not be read; showing generic placeholders.
+                     </p>
+                 )}
                  <div className="mt-4 space-y-2 text-left">
-                     {bRollIdeas.map((idea, i) => (
+                     {bRollIdeas?.value.map((idea, i) => (
                          <div key={i} className="text-xs text-white/70 bg-black/20 p-2 rounded border border-white/5 cursor-pointer hover:border-[#D4A373]" onClick={() => onUseScript(idea)}>
                              {idea}
                          </div>
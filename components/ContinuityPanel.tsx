@@ -3,7 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { Asset, ContinuityProfile } from '../types';
+import { assetLabel } from '../services/assets';
+import { Asset, AssetType, ContinuityProfile } from '../types';
 import { KeyIcon, SlidersHorizontalIcon, SparklesIcon } from './icons';
 
 interface ContinuityPanelProps {
@@ -13,15 +14,18 @@ interface ContinuityPanelProps {
     onSetLighting: (lighting: string | null) => void;
 }
 
+const LOCK_GROUPS: { type: AssetType; title: string; empty: string }[] = [
+    { type: 'character', title: 'Cast Lock', empty: 'No characters in bin.' },
+    { type: 'environment', title: 'Location Lock', empty: 'No environments in bin.' },
+    { type: 'object', title: 'Prop Lock', empty: 'No objects in bin.' },
+];
+
 const ContinuityPanel: React.FC<ContinuityPanelProps> = ({
     assets,
     continuity,
     onToggleAsset,
     onSetLighting
 }) => {
-    const characters = assets.filter(a => a.type === 'character');
-    const environments = assets.filter(a => a.type === 'environment');
-
     return (
         <div className="bg-[#2F3E32]/90 backdrop-blur-md rounded-2xl border border-white/10 p-4 w-full">
             <h3 className="text-sm font-bold text-[#E07A5F] uppercase tracking-widest flex items-center gap-2 mb-4">
@@ -30,31 +34,39 @@ const ContinuityPanel: React.FC<ContinuityPanelProps> = ({
             </h3>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Character Lock */}
-                <div>
-                    <h4 className="text-xs font-semibold text-white/50 mb-2 uppercase">Cast Lock</h4>
-                    {characters.length === 0 ? (
-                        <p className="text-[10px] text-white/30 italic">No characters in bin.</p>
-                    ) : (
-                        <div className="space-y-2">
-                            {characters.map(char => (
-                                <label key={char.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 cursor-pointer group transition-colors">
-                                    <input 
-                                        type="checkbox" 
-                                        checked={continuity.activeAssetIds.includes(char.id)}
-                                        onChange={() => onToggleAsset(char.id)}
-                                        className="w-4 h-4 rounded border-gray-500 text-[#E07A5F] focus:ring-[#E07A5F] bg-transparent"
-                                    />
-                                    <div className="w-8 h-8 rounded-full overflow-hidden border border-white/20">
-                                        <img src={char.imageUrl} className="w-full h-full object-cover" />
+                {/* Asset Locks */}
+                <div className="space-y-4">
+                    {LOCK_GROUPS.map(group => {
+                        // Turnaround views show the same character, so only the character itself is offered.
+                        const groupAssets = assets.filter(a => a.type === group.type && !a.parentAssetId);
+                        return (
+                            <div key={group.type}>
+                                <h4 className="text-xs font-semibold text-white/50 mb-2 uppercase">{group.title}</h4>
+                                {groupAssets.length === 0 ? (
+                                    <p className="text-[10px] text-white/30 italic">{group.empty}</p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {groupAssets.map(asset => (
+                                            <label key={asset.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 cursor-pointer group transition-colors" title={asset.prompt}>
+                                                <input 
+                                                    type="checkbox" 
+                                                    checked={continuity.activeAssetIds.includes(asset.id)}
+                                                    onChange={() => onToggleAsset(asset.id)}
+                                                    className="w-4 h-4 rounded border-gray-500 text-[#E07A5F] focus:ring-[#E07A5F] bg-transparent"
+                                                />
+                                                <div className={`w-8 h-8 overflow-hidden border border-white/20 ${group.type === 'character' ? 'rounded-full' : 'rounded'}`}>
+                                                    <img src={asset.imageUrl} className="w-full h-full object-cover" />
+                                                </div>
+                                                <span className={`text-xs ${continuity.activeAssetIds.includes(asset.id) ? 'text-white font-medium' : 'text-gray-400 group-hover:text-gray-300'}`}>
+                                                    {assetLabel(asset)}
+                                                </span>
+                                            </label>
+                                        ))}
                                     </div>
-                                    <span className={`text-xs ${continuity.activeAssetIds.includes(char.id) ? 'text-white font-medium' : 'text-gray-400 group-hover:text-gray-300'}`}>
-                                        {char.prompt.slice(0, 20)}...
-                                    </span>
-                                </label>
-                            ))}
-                        </div>
-                    )}
+                                )}
+                            </div>
+                        );
+                    })}
                 </div>
 
                 {/* Lighting Lock */}
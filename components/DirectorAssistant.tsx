@@ -5,6 +5,7 @@
 import React, { useState } from 'react';
 import { BotIcon, MicIcon, SendIcon, XMarkIcon } from './icons';
 import { chatWithDirector, DirectorAction } from '../services/geminiService';
+import { GenerationError } from '../services/errors';
 
 interface DirectorAssistantProps {
   onAction?: (action: DirectorAction) => void;
@@ -36,14 +37,15 @@ const DirectorAssistant: React.FC<DirectorAssistantProps> = ({ onAction }) => {
               if (onAction) onAction(action);
               
               let reply = "Done.";
-              if (action.type === 'GENERATE_ASSET') reply = `Generating ${action.payload.prompt}...`;
+              if (action.type === 'GENERATE_ASSET') reply = `Generating ${action.payload.name || action.payload.prompt}...`;
               if (action.type === 'UPDATE_PROMPT') reply = "I've updated the main prompt with that scene description.";
               if (action.type === 'SWITCH_VIEW') reply = `Switching to ${action.payload.view} view.`;
               
               setMessages(prev => [...prev, {role: 'ai', text: reply}]);
           }
       } catch (error) {
-          setMessages(prev => [...prev, {role: 'ai', text: "Sorry, I lost my train of thought."}]);
+          const text = error instanceof GenerationError ? `Sorry, that didn't work. ${error.message}` : "Sorry, I lost my train of thought.";
+          setMessages(prev => [...prev, {role: 'ai', text}]);
       } finally {
           setIsThinking(false);
       }
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { ASSET_TYPE_OPTIONS } from '../services/assets';
+import { CapturedFrame, snapshotVideo } from '../services/media';
+import { formatTimecode } from '../services/sequence';
+import { AssetType } from '../types';
+import { CameraIcon, PlusIcon, XMarkIcon } from './icons';
+
+interface FrameGrabberProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  defaultName: string;
+  onSaveAsset: (frame: CapturedFrame, details: { name: string; type: AssetType }) => void;
+  onUseAsStartFrame: (frame: CapturedFrame) => void;
+  onUseAsReference: (frame: CapturedFrame) => void;
+}
+
+/**
+ * Snapshots the frame the player is showing and hands it on: to the bin as an
+ * asset, or straight to the prompt bar as a start frame or reference image.
+ */
+const FrameGrabber: React.FC<FrameGrabberProps> = ({ videoRef, defaultName, onSaveAsset, onUseAsStartFrame, onUseAsReference }) => {
+  const [frame, setFrame] = useState<{ image: CapturedFrame; time: number; previewUrl: string } | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AssetType>('character');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => () => { if (frame) URL.revokeObjectURL(frame.previewUrl); }, [frame]);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    setError(null);
+    if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      setError('The clip has not loaded yet.');
+      return;
+    }
+    video.pause();
+    try {
+      const image = await snapshotVideo(video, `frame_${Math.round(video.currentTime * 1000)}.png`);
+      setFrame({ image, time: video.currentTime, previewUrl: URL.createObjectURL(image.file) });
+      setName(`${defaultName} @ ${formatTimecode(video.currentTime)}`);
+    } catch (err) {
+      console.error('Frame capture failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not capture the frame');
+    }
+  };
+
+  const finish = (action: (image: CapturedFrame) => void) => {
+    if (!frame) return;
+    action(frame.image);
+    setFrame(null);
+  };
+
+  return (
+    <div className="relative shrink-0">
+      <button
+        onClick={capture}
+        className="glass-panel rounded-lg px-3 py-2 flex items-center gap-2 text-xs text-white/70 hover:text-white hover:border-[#D4A373] transition-colors"
+        title="Capture the frame on screen"
+      >
+        <CameraIcon className="w-4 h-4 text-[#D4A373]" />
+        Grab Frame
+      </button>
+      {error && !frame && (
+        <p className="absolute bottom-full right-0 mb-2 whitespace-nowrap text-[10px] text-red-300/80 bg-black/70 px-2 py-1 rounded">{error}</p>
+      )}
+
+      {frame && (
+        <div className="absolute bottom-full right-0 mb-2 w-72 glass-panel bg-[#2F3E32]/95 rounded-xl p-3 space-y-3 z-30 animate-fade-in">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-[#D4A373] uppercase tracking-widest">
+              Captured Frame <span className="font-mono text-white/40 normal-case tracking-normal">{formatTimecode(frame.time)}</span>
+            </span>
+            <button onClick={() => setFrame(null)} className="p-0.5 text-white/40 hover:text-white" title="Discard">
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          </div>
+          <img src={frame.previewUrl} alt="Captured frame" className="w-full rounded-lg border border-white/10" />
+
+          <div className="space-y-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Asset name"
+              className="w-full bg-black/30 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-[#D4A373]"
+            />
+            <div className="flex gap-1">
+              {ASSET_TYPE_OPTIONS.map(option => (
+                <button
+                  key={option.type}
+                  onClick={() => setType(option.type)}
+                  className={`flex-1 py-1 rounded text-[10px] uppercase font-bold transition-colors ${
+                    type === option.type ? 'bg-[#D4A373] text-[#2F3E32]' : 'bg-black/20 text-white/50 hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => finish(image => onSaveAsset(image, { name: name.trim() || defaultName, type }))}
+              className="w-full flex items-center justify-center gap-1 bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] py-1.5 rounded text-xs font-bold"
+            >
+              <PlusIcon className="w-3 h-3" /> Save to Bin
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 pt-2 border-t border-white/10">
+            <button onClick={() => finish(onUseAsStartFrame)} className="py-1.5 rounded bg-white/10 hover:bg-white/20 text-[10px] text-white font-medium">
+              Use as Start Frame
+            </button>
+            <button onClick={() => finish(onUseAsReference)} className="py-1.5 rounded bg-white/10 hover:bg-white/20 text-[10px] text-white font-medium">
+              Use as Reference
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FrameGrabber;
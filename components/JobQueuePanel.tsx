@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { estimateJobProgress, isJobActive, MAX_JOB_CONCURRENCY } from '../hooks/useJobQueue';
+import { formatElapsed, useNow } from '../hooks/useNow';
+import { ERROR_KIND_LABELS } from '../services/errors';
+import { GenerationJob, JobStatus } from '../types';
+import { ChevronDownIcon, ChevronUpIcon, FilmIcon, GridIcon, XMarkIcon } from './icons';
+
+interface JobQueuePanelProps {
+  jobs: GenerationJob[];
+  concurrency: number;
+  onChangeConcurrency: (value: number) => void;
+  videoTimeoutMs: number;
+  onChangeVideoTimeout: (ms: number) => void;
+  onCancelJob: (id: string) => void;
+  onDismissJob: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'text-white/50',
+  running: 'text-[#D4A373]',
+  succeeded: 'text-emerald-400',
+  failed: 'text-red-400',
+  cancelled: 'text-white/30',
+  timed_out: 'text-amber-300',
+};
+
+const TIMEOUT_MINUTES = [5, 10, 20, 30];
+
+export const JobProgressBar: React.FC<{ job: GenerationJob; now: number }> = ({ job, now }) => (
+  <div className="h-1 w-full bg-white/10 rounded-full overflow-hidden">
+    <div
+      className={`h-full transition-all duration-1000 ${job.status === 'failed' ? 'bg-red-400' : 'bg-[#D4A373]'}`}
+      style={{ width: `${Math.round(estimateJobProgress(job, now) * 100)}%` }}
+    />
+  </div>
+);
+
+export const jobElapsed = (job: GenerationJob, now: number): string =>
+  job.startedAt ? formatElapsed((job.finishedAt ?? now) - job.startedAt) : formatElapsed(0);
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({
+  jobs,
+  concurrency,
+  onChangeConcurrency,
+  videoTimeoutMs,
+  onChangeVideoTimeout,
+  onCancelJob,
+  onDismissJob,
+  onClearFinished
+}) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const activeCount = jobs.filter(isJobActive).length;
+  const now = useNow(activeCount > 0);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="absolute top-4 left-4 w-72 glass-panel bg-[#2F3E32]/90 rounded-xl z-30 animate-fade-in overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-white/10 bg-black/20">
+        <button onClick={() => setIsCollapsed(!isCollapsed)} className="flex items-center gap-2 text-[10px] font-bold text-[#D4A373] uppercase tracking-widest">
+          Render Queue
+          <span className="text-white/50 normal-case tracking-normal font-medium">{activeCount} active</span>
+          {isCollapsed ? <ChevronDownIcon className="w-3 h-3" /> : <ChevronUpIcon className="w-3 h-3" />}
+        </button>
+        <label className="flex items-center gap-1 text-[10px] text-white/50" title="Maximum jobs running at once">
+          Parallel
+          <select
+            value={concurrency}
+            onChange={e => onChangeConcurrency(Number(e.target.value))}
+            className="bg-black/30 border border-white/10 rounded text-white text-[10px] px-1 focus:outline-none"
+          >
+            {Array.from({ length: MAX_JOB_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 text-[10px] text-white/50" title="Give up on a video that has not finished after this long">
+          Timeout
+          <select
+            value={videoTimeoutMs}
+            onChange={e => onChangeVideoTimeout(Number(e.target.value))}
+            className="bg-black/30 border border-white/10 rounded text-white text-[10px] px-1 focus:outline-none"
+          >
+            {TIMEOUT_MINUTES.map(min => (
+              <option key={min} value={min * 60000}>{min}m</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!isCollapsed && (
+        <>
+          <div className="max-h-64 overflow-y-auto scrollbar-thin divide-y divide-white/5">
+            {jobs.map(job => (
+              <div key={job.id} className="px-3 py-2 space-y-1.5">
+                <div className="flex items-center gap-2">
+                  {job.kind === 'video' ? <FilmIcon className="w-3 h-3 text-white/50 shrink-0" /> : <GridIcon className="w-3 h-3 text-white/50 shrink-0" />}
+                  <span className="flex-1 min-w-0 truncate text-xs text-white/80" title={job.label}>{job.label}</span>
+                  <button
+                    onClick={() => isJobActive(job) ? onCancelJob(job.id) : onDismissJob(job.id)}
+                    className="p-0.5 text-white/40 hover:text-white"
+                    title={isJobActive(job) ? 'Cancel' : 'Dismiss'}
+                  >
+                    <XMarkIcon className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="flex items-center justify-between text-[10px]">
+                  <span className={`uppercase font-bold ${STATUS_STYLES[job.status]}`}>{job.status.replace('_', ' ')}</span>
+                  <span className="font-mono text-white/40">{jobElapsed(job, now)}</span>
+                </div>
+                {isJobActive(job) && <JobProgressBar job={job} now={now} />}
+                {job.error && (
+                  <p className={`text-[10px] line-clamp-2 ${job.status === 'timed_out' ? 'text-amber-200/80' : 'text-red-300/80'}`} title={job.error}>
+                    {job.errorKind && <span className="font-bold uppercase mr-1">{ERROR_KIND_LABELS[job.errorKind]}:</span>}
+                    {job.error}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+          {jobs.length > activeCount && (
+            <button onClick={onClearFinished} className="w-full py-1.5 text-[10px] text-white/40 hover:text-white border-t border-white/10">
+              Clear finished
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ASSET_TYPE_OPTIONS } from '../services/assets';
+import { EMPTY_FILTER, isFilterActive, MODE_OPTIONS, MODEL_LABELS, toggleValue } from '../services/search';
+import { LibraryFilter, SavedFilterView, VeoModel } from '../types';
+import { BookmarkIcon, MagnifyingGlassIcon, SlidersHorizontalIcon, XMarkIcon } from './icons';
+
+interface LibraryFilterBarProps {
+  filter: LibraryFilter;
+  onChange: (filter: LibraryFilter) => void;
+  // Which facets to offer: asset types in the bin, generation settings on the timeline.
+  scope: 'assets' | 'scenes';
+  tags: string[];
+  views: SavedFilterView[];
+  onSaveView: (name: string) => void;
+  onDeleteView: (id: string) => void;
+  matchCount: number;
+  total: number;
+}
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-1.5 py-0.5 rounded text-[10px] transition-colors ${
+      active ? 'bg-[#D4A373] text-[#2F3E32] font-bold' : 'bg-black/30 text-white/60 hover:text-white'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const FacetGroup: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="space-y-1">
+    <h4 className="text-[9px] font-bold text-white/40 uppercase tracking-wider">{label}</h4>
+    <div className="flex flex-wrap gap-1">{children}</div>
+  </div>
+);
+
+/**
+ * Search box with tag and facet filters and saved views. The bin and the
+ * timeline share one filter, so narrowing one narrows the other.
+ */
+const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({ filter, onChange, scope, tags, views, onSaveView, onDeleteView, matchCount, total }) => {
+  const [panel, setPanel] = useState<'filters' | 'views' | null>(null);
+  const [viewName, setViewName] = useState('');
+  const update = (changes: Partial<LibraryFilter>) => onChange({ ...filter, ...changes });
+  const facetCount = filter.tags.length + (scope === 'assets' ? filter.assetTypes.length : filter.modes.length + filter.models.length);
+  const isActive = isFilterActive(filter);
+
+  const handleSaveView = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!viewName.trim()) return;
+    onSaveView(viewName.trim());
+    setViewName('');
+  };
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-1.5">
+        <label className="flex-1 flex items-center gap-1.5 bg-black/30 border border-white/10 rounded px-2 py-1 focus-within:border-[#D4A373]">
+          <MagnifyingGlassIcon className="w-3 h-3 text-white/40 shrink-0" />
+          <input
+            value={filter.query}
+            onChange={e => update({ query: e.target.value })}
+            placeholder={scope === 'assets' ? 'Search assets...' : 'Search scenes...'}
+            className="flex-1 min-w-0 bg-transparent text-[11px] text-white placeholder-white/30 focus:outline-none"
+          />
+          {isActive && <span className="text-[9px] font-mono text-white/40 shrink-0">{matchCount}/{total}</span>}
+          {isActive && (
+            <button type="button" onClick={() => onChange(EMPTY_FILTER)} className="text-white/40 hover:text-white" title="Clear search and filters">
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          )}
+        </label>
+        <button
+          type="button"
+          onClick={() => setPanel(panel === 'filters' ? null : 'filters')}
+          className={`relative p-1.5 rounded transition-colors ${panel === 'filters' || facetCount > 0 ? 'text-[#D4A373]' : 'text-white/50 hover:text-white'}`}
+          title="Filter by tag and type"
+        >
+          <SlidersHorizontalIcon className="w-3.5 h-3.5" />
+          {facetCount > 0 && <span className="absolute -top-0.5 -right-0.5 w-3 h-3 rounded-full bg-[#E07A5F] text-[8px] text-white font-bold flex items-center justify-center">{facetCount}</span>}
+        </button>
+        <button
+          type="button"
+          onClick={() => setPanel(panel === 'views' ? null : 'views')}
+          className={`p-1.5 rounded transition-colors ${panel === 'views' ? 'text-[#D4A373]' : 'text-white/50 hover:text-white'}`}
+          title="Saved views"
+        >
+          <BookmarkIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {panel === 'filters' && (
+        <div className="absolute right-0 top-full mt-1 w-72 z-40 bg-[#2F3E32] border border-white/10 rounded-lg shadow-2xl p-3 space-y-3 animate-fade-in">
+          <FacetGroup label="Tags">
+            {tags.length === 0
+              ? <span className="text-[10px] text-white/30 italic">No tags yet.</span>
+              : tags.map(tag => <Chip key={tag} active={filter.tags.includes(tag)} onClick={() => update({ tags: toggleValue(filter.tags, tag) })}>{tag}</Chip>)}
+          </FacetGroup>
+          {scope === 'assets' ? (
+            <FacetGroup label="Type">
+              {ASSET_TYPE_OPTIONS.map(option => (
+                <Chip key={option.type} active={filter.assetTypes.includes(option.type)} onClick={() => update({ assetTypes: toggleValue(filter.assetTypes, option.type) })}>
+                  {option.label}
+                </Chip>
+              ))}
+            </FacetGroup>
+          ) : (
+            <>
+              <FacetGroup label="Mode">
+                {MODE_OPTIONS.map(mode => (
+                  <Chip key={mode} active={filter.modes.includes(mode)} onClick={() => update({ modes: toggleValue(filter.modes, mode) })}>{mode}</Chip>
+                ))}
+              </FacetGroup>
+              <FacetGroup label="Model">
+                {(Object.keys(MODEL_LABELS) as VeoModel[]).map(model => (
+                  <Chip key={model} active={filter.models.includes(model)} onClick={() => update({ models: toggleValue(filter.models, model) })}>{MODEL_LABELS[model]}</Chip>
+                ))}
+              </FacetGroup>
+            </>
+          )}
+        </div>
+      )}
+
+      {panel === 'views' && (
+        <div className="absolute right-0 top-full mt-1 w-60 z-40 bg-[#2F3E32] border border-white/10 rounded-lg shadow-2xl p-3 space-y-2 animate-fade-in">
+          {views.length === 0 ? (
+            <p className="text-[10px] text-white/30 italic">No saved views.</p>
+          ) : (
+            <div className="space-y-1">
+              {views.map(view => (
+                <div key={view.id} className="flex items-center gap-1 group">
+                  <button
+                    type="button"
+                    onClick={() => { onChange(view.filter); setPanel(null); }}
+                    className="flex-1 text-left px-2 py-1 rounded text-[11px] text-white/80 hover:bg-white/10 truncate"
+                  >
+                    {view.name}
+                  </button>
+                  <button type="button" onClick={() => onDeleteView(view.id)} className="p-0.5 text-white/30 hover:text-red-300 opacity-0 group-hover:opacity-100" title="Delete view">
+                    <XMarkIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <form onSubmit={handleSaveView} className="flex gap-1 pt-2 border-t border-white/10">
+            <input
+              value={viewName}
+              onChange={e => setViewName(e.target.value)}
+              placeholder={isActive ? 'Name this view' : 'Set a search or filter first'}
+              disabled={!isActive}
+              className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded px-2 py-1 text-[11px] text-white placeholder-white/30 focus:outline-none focus:border-[#D4A373] disabled:opacity-50"
+            />
+            <button type="submit" disabled={!isActive || !viewName.trim()} className="px-2 rounded bg-[#D4A373] text-[#2F3E32] text-[10px] font-bold disabled:opacity-40">
+              Save
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryFilterBar;
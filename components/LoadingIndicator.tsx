@@ -3,6 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
+import { useNow } from '../hooks/useNow';
+import { GenerationJob } from '../types';
+import { jobElapsed } from './JobQueuePanel';
+import { XMarkIcon } from './icons';
 
 const loadingMessages = [
   "Warming up the digital director...",
@@ -26,7 +30,14 @@ const loadingMessages = [
   "Starting a draft for your oscar speech..."
 ];
 
-const LoadingIndicator: React.FC = () => {
+interface LoadingIndicatorProps {
+  // The generation being waited on; shows its elapsed time and a cancel button.
+  job?: GenerationJob;
+  onCancel?: (id: string) => void;
+}
+
+const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ job, onCancel }) => {
+  const now = useNow(!!job);
   const [messageIndex, setMessageIndex] = useState(0);
 
   useEffect(() => {
@@ -44,6 +55,20 @@ const LoadingIndicator: React.FC = () => {
       <p className="mt-2 text-[#C2B280] text-center transition-opacity duration-500">
         {loadingMessages[messageIndex]}
       </p>
+      {job && (
+        <div className="mt-6 flex items-center gap-4">
+          <span className="font-mono text-sm text-white/50">{jobElapsed(job, now)}</span>
+          {onCancel && (
+            <button
+              onClick={() => onCancel(job.id)}
+              className="flex items-center gap-1.5 px-4 py-1.5 rounded-full text-xs font-medium border border-white/20 text-white/70 hover:text-white hover:border-[#E35336] transition-colors"
+            >
+              <XMarkIcon className="w-3 h-3" />
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { StoryBucket } from '../types';
+import { ChevronDownIcon, CopyIcon, PencilIcon, PlusIcon, TrashIcon } from './icons';
+
+interface ProjectSwitcherProps {
+  buckets: StoryBucket[];
+  activeBucketId: string;
+  onSelectBucket: (id: string) => void;
+  onCreateBucket: (name: string) => void;
+  onRenameBucket: (id: string, name: string) => void;
+  onDuplicateBucket: (id: string) => void;
+  onDeleteBucket: (id: string) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  buckets,
+  activeBucketId,
+  onSelectBucket,
+  onCreateBucket,
+  onRenameBucket,
+  onDuplicateBucket,
+  onDeleteBucket
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [newName, setNewName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const activeBucket = buckets.find(b => b.id === activeBucketId);
+
+  // Click outside listener
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setEditingId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const startRename = (bucket: StoryBucket) => {
+    setEditingId(bucket.id);
+    setEditingName(bucket.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) onRenameBucket(editingId, editingName.trim());
+    setEditingId(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreateBucket(newName.trim());
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative ml-4" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-1.5 rounded-full text-xs font-medium flex items-center gap-2 bg-black/20 border border-white/10 text-white hover:border-[#D4A373] transition-colors max-w-[14rem]"
+        title="Switch story bucket"
+      >
+        <span className="truncate">{activeBucket?.name ?? 'Untitled'}</span>
+        <ChevronDownIcon className="w-3 h-3 shrink-0 text-white/50" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 glass-panel bg-[#2F3E32]/95 rounded-xl overflow-hidden z-50 animate-fade-in">
+          <div className="max-h-72 overflow-y-auto scrollbar-thin py-1">
+            {buckets.map(bucket => (
+              <div
+                key={bucket.id}
+                className={`group flex items-center gap-2 px-3 py-2 text-xs ${bucket.id === activeBucketId ? 'bg-white/10 text-[#D4A373]' : 'text-gray-300 hover:bg-white/5'}`}
+              >
+                {editingId === bucket.id ? (
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={e => setEditingName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded px-2 py-1 text-white focus:outline-none focus:border-[#D4A373]"
+                  />
+                ) : (
+                  <button
+                    onClick={() => { onSelectBucket(bucket.id); setIsOpen(false); }}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <div className="truncate font-medium">{bucket.name}</div>
+                    <div className="text-[10px] text-white/40">{bucket.scenes.length} Scenes</div>
+                  </button>
+                )}
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startRename(bucket)} className="p-1 text-white/50 hover:text-white" title="Rename">
+                    <PencilIcon className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onDuplicateBucket(bucket.id)} className="p-1 text-white/50 hover:text-white" title="Duplicate">
+                    <CopyIcon className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onDeleteBucket(bucket.id)}
+                    disabled={buckets.length <= 1}
+                    className="p-1 text-white/50 hover:text-red-400 disabled:opacity-30 disabled:hover:text-white/50"
+                    title="Delete"
+                  >
+                    <TrashIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleCreate} className="flex items-center gap-2 p-2 border-t border-white/10 bg-black/20">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="New story bucket..."
+              className="flex-1 min-w-0 bg-transparent text-xs text-white placeholder-white/30 px-2 py-1 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="p-1.5 bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] rounded-full disabled:opacity-50"
+              title="Create"
+            >
+              <PlusIcon className="w-3 h-3" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
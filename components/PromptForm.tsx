@@ -12,10 +12,14 @@ import {
   GenerateVideoParams,
   GenerationMode,
   ImageFile,
+  PromptComposition,
   Resolution,
   VeoModel,
   VideoFile,
 } from '../types';
+import {continuityPromptText} from '../services/assets';
+import {MAX_REFERENCE_IMAGES} from '../services/geminiService';
+import {CapturedFrame} from '../services/media';
 import ContinuityPanel from './ContinuityPanel';
 import StyleSelector from './StyleSelector';
 import {
@@ -26,6 +30,7 @@ import {
   PlusIcon,
   RectangleStackIcon,
   ReferencesModeIcon,
+  RepeatIcon,
   SlidersHorizontalIcon,
   SparklesIcon,
   TextModeIcon,
@@ -56,6 +61,21 @@ const fileToImageFile = (file: File): Promise<ImageFile> =>
 const fileToVideoFile = (file: File): Promise<VideoFile> =>
   fileToBase64<VideoFile>(file);
 
+const ASPECT_RATIO_VALUES: Record<AspectRatio, number> = {
+  [AspectRatio.LANDSCAPE]: 16 / 9,
+  [AspectRatio.PORTRAIT]: 9 / 16,
+};
+// Small crops are fine; Veo letterboxes anything further off.
+const ASPECT_RATIO_TOLERANCE = 0.05;
+
+const frameMatchesAspectRatio = async (image: ImageFile, aspectRatio: AspectRatio): Promise<boolean> => {
+  const bitmap = await createImageBitmap(image.file);
+  const ratio = bitmap.width / bitmap.height;
+  bitmap.close();
+  const target = ASPECT_RATIO_VALUES[aspectRatio];
+  return Math.abs(ratio - target) / target <= ASPECT_RATIO_TOLERANCE;
+};
+
 // Components
 const CustomSelect: React.FC<{
   label: string;
@@ -150,10 +170,11 @@ const ImageUpload: React.FC<{
 };
 
 interface PromptFormProps {
-  onGenerate: (params: GenerateVideoParams) => void;
+  onGenerate: (params: GenerateVideoParams, composition: PromptComposition) => void;
   initialValues?: GenerateVideoParams | null;
   externalPrompt?: string | null;
   externalReferences?: ImageFile[];
+  externalStartFrame?: CapturedFrame | null;
   
   // New props for state lifting
   assets: Asset[];
@@ -170,6 +191,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
   initialValues,
   externalPrompt,
   externalReferences,
+  externalStartFrame,
   assets,
   selectedStyle,
   onSelectStyle,
@@ -189,6 +211,9 @@ const PromptForm: React.FC<PromptFormProps> = ({
   const [inputVideo, setInputVideo] = useState<VideoFile | null>(initialValues?.inputVideo ?? null);
   const [inputVideoObject, setInputVideoObject] = useState<Video | null>(initialValues?.inputVideoObject ?? null);
   const [isLooping, setIsLooping] = useState(initialValues?.isLooping ?? false);
+  const [frameError, setFrameError] = useState<string | null>(null);
+  // The aspect-ratio check reads the images asynchronously; submitting waits for it.
+  const [isCheckingFrames, setIsCheckingFrames] = useState(false);
 
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'settings' | 'style' | 'continuity' | null>(null);
@@ -224,6 +249,14 @@ const PromptForm: React.FC<PromptFormProps> = ({
     }
   }, [externalReferences]);
 
+  // A frame grabbed from a scene continues the shot, so match its shape too.
+  useEffect(() => {
+    if (!externalStartFrame) return;
+    setGenerationMode(GenerationMode.FRAMES_TO_VIDEO);
+    setStartFrame(externalStartFrame);
+    setAspectRatio(externalStartFrame.height > externalStartFrame.width ? AspectRatio.PORTRAIT : AspectRatio.LANDSCAPE);
+  }, [externalStartFrame]);
+
   // Adjust config based on mode
   useEffect(() => {
     if (generationMode === GenerationMode.REFERENCES_TO_VIDEO) {
@@ -235,6 +268,39 @@ const PromptForm: React.FC<PromptFormProps> = ({
     }
   }, [generationMode]);
 
+  // Frames to Video: Veo needs a start frame to interpolate from, in the output's shape.
+  useEffect(() => {
+    setIsCheckingFrames(false);
+    if (generationMode !== GenerationMode.FRAMES_TO_VIDEO) {
+      setFrameError(null);
+      return;
+    }
+    if (!startFrame && (endFrame || isLooping)) {
+      setFrameError(isLooping ? 'Add a start frame to loop.' : 'An end frame needs a start frame.');
+      return;
+    }
+    const frames = [startFrame, isLooping ? null : endFrame].filter((f): f is ImageFile => !!f);
+    if (frames.length === 0) {
+      setFrameError(null);
+      return;
+    }
+    let isCurrent = true;
+    setIsCheckingFrames(true);
+    Promise.all(frames.map(f => frameMatchesAspectRatio(f, aspectRatio)))
+      .then(matches => {
+        if (!isCurrent) return;
+        setFrameError(matches.every(Boolean) ? null : `Frames must match the ${aspectRatio} aspect ratio.`);
+      })
+      .catch(error => {
+        console.error('Could not read frame dimensions:', error);
+        if (isCurrent) setFrameError('One of the frames could not be read.');
+      })
+      .finally(() => {
+        if (isCurrent) setIsCheckingFrames(false);
+      });
+    return () => { isCurrent = false; };
+  }, [generationMode, startFrame, endFrame, isLooping, aspectRatio]);
+
   // Auto-resize textarea
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -257,6 +323,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
 
   const handleSubmit = useCallback((e: React.FormEvent) => {
       e.preventDefault();
+      if (frameError || isCheckingFrames) return;
       
       // Inject Style and Continuity into prompt logic
       let finalPrompt = prompt;
@@ -269,28 +336,30 @@ const PromptForm: React.FC<PromptFormProps> = ({
       // 2. Continuity Injection (Textual)
       const lockedAssets = assets.filter(a => continuity.activeAssetIds.includes(a.id));
       if (lockedAssets.length > 0) {
-          const charDescriptions = lockedAssets.map(a => `Character Reference: ${a.prompt}`).join('. ');
-          finalPrompt = `${finalPrompt}. ${charDescriptions}.`;
+          finalPrompt = `${finalPrompt}. ${continuityPromptText(lockedAssets)}.`;
       }
       if (continuity.lightingLock) {
           finalPrompt = `${finalPrompt}. Lighting: ${continuity.lightingLock}.`;
       }
 
+      // Frame settings stay in the form when switching modes but only apply to Frames to Video.
+      const usesFrames = generationMode === GenerationMode.FRAMES_TO_VIDEO;
+
       onGenerate({
         prompt: finalPrompt,
         model,
         aspectRatio,
         resolution,
         mode: generationMode,
-        startFrame,
-        endFrame,
+        startFrame: usesFrames ? startFrame : null,
+        endFrame: usesFrames ? endFrame : null,
         referenceImages, // Note: We could also append locked asset images here if Veo supports mix
         inputVideo,
         inputVideoObject,
-        isLooping,
-      });
+        isLooping: usesFrames && isLooping,
+      }, {rawPrompt: prompt, style: selectedStyle, continuity});
     },
-    [prompt, model, aspectRatio, resolution, generationMode, startFrame, endFrame, referenceImages, inputVideo, inputVideoObject, isLooping, onGenerate, selectedStyle, continuity, assets]
+    [prompt, model, aspectRatio, resolution, generationMode, startFrame, endFrame, referenceImages, inputVideo, inputVideoObject, isLooping, frameError, isCheckingFrames, onGenerate, selectedStyle, continuity, assets]
   );
 
   const toggleTab = (tab: 'settings' | 'style' | 'continuity') => {
@@ -373,9 +442,48 @@ const PromptForm: React.FC<PromptFormProps> = ({
       <form onSubmit={handleSubmit} className="w-full">
         {/* Helper visual for start/end frames */}
         {generationMode === GenerationMode.FRAMES_TO_VIDEO && (
-            <div className="mb-3 p-4 glass-panel rounded-2xl flex justify-center gap-4">
-                 <ImageUpload label="Start Frame" image={startFrame} onSelect={setStartFrame} onRemove={() => setStartFrame(null)} />
-                 <ImageUpload label="End Frame" image={endFrame} onSelect={setEndFrame} onRemove={() => setEndFrame(null)} />
+            <div className="mb-3 p-4 glass-panel rounded-2xl">
+                <div className="flex justify-center items-center gap-4">
+                    <ImageUpload label="Start Frame" image={startFrame} onSelect={setStartFrame} onRemove={() => setStartFrame(null)} />
+                    {isLooping ? (
+                        <div className="w-28 h-20 border-2 border-dashed border-[#D4A373]/40 rounded-lg flex flex-col items-center justify-center text-[#D4A373]/80">
+                            <RepeatIcon className="w-5 h-5" />
+                            <span className="text-xs mt-1">Back to start</span>
+                        </div>
+                    ) : (
+                        <ImageUpload label="End Frame" image={endFrame} onSelect={setEndFrame} onRemove={() => setEndFrame(null)} />
+                    )}
+                    <button
+                        type="button"
+                        onClick={() => setIsLooping(!isLooping)}
+                        className={`flex flex-col items-center gap-1 px-3 py-2 rounded-lg text-xs transition-colors ${isLooping ? 'bg-[#D4A373] text-[#2F3E32]' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+                        title="End on the start frame so the clip loops seamlessly"
+                    >
+                        <RepeatIcon className="w-5 h-5" />
+                        Loop
+                    </button>
+                </div>
+                {frameError && <p className="mt-2 text-center text-xs text-red-300/80">{frameError}</p>}
+            </div>
+        )}
+
+        {generationMode === GenerationMode.REFERENCES_TO_VIDEO && (
+            <div className="mb-3 p-4 glass-panel rounded-2xl">
+                <div className="flex justify-center items-center gap-4">
+                    {referenceImages.map((image, i) => (
+                        <ImageUpload
+                            key={i}
+                            label="Reference"
+                            image={image}
+                            onSelect={() => {}}
+                            onRemove={() => setReferenceImages(referenceImages.filter((_, j) => j !== i))}
+                        />
+                    ))}
+                    {referenceImages.length < MAX_REFERENCE_IMAGES && (
+                        <ImageUpload label="Reference" onSelect={image => setReferenceImages([...referenceImages, image])} />
+                    )}
+                </div>
+                <p className="mt-2 text-center text-[10px] text-white/40">Up to {MAX_REFERENCE_IMAGES} images of characters, places or objects to keep consistent.</p>
             </div>
         )}
         
@@ -449,7 +557,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
              </button>
              <button
                 type="submit"
-                disabled={!prompt.trim()}
+                disabled={!prompt.trim() || !!frameError || isCheckingFrames}
                 className="p-3 bg-[#E35336] hover:bg-[#c4442b] rounded-full text-white shadow-lg disabled:opacity-50 disabled:cursor-not-allowed ml-2"
              >
                  <ArrowRightIcon className="w-5 h-5" />
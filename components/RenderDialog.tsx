@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { GenerationCancelledError } from '../services/errors';
+import { pickRecorderFormat, renderSequence, RenderedFilm, RenderTimeline } from '../services/render';
+import { buildSequence, formatTimecode } from '../services/sequence';
+import { Resolution } from '../types';
+import { DownloadIcon, FilmIcon, XMarkIcon } from './icons';
+
+interface RenderDialogProps {
+  timeline: RenderTimeline;
+  title: string;
+  onClose: () => void;
+}
+
+type RenderState =
+  | { status: 'idle' }
+  | { status: 'rendering'; progress: number }
+  | { status: 'done'; film: RenderedFilm; url: string }
+  | { status: 'failed'; error: string };
+
+const RenderDialog: React.FC<RenderDialogProps> = ({ timeline, title, onClose }) => {
+  const [resolution, setResolution] = useState<Resolution>(Resolution.P720);
+  const [state, setState] = useState<RenderState>({ status: 'idle' });
+  const controllerRef = useRef<AbortController | null>(null);
+  const format = pickRecorderFormat();
+  const sequence = buildSequence(timeline.scenes);
+
+  // Stop an in-flight render and free the result when the dialog goes away.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+  useEffect(() => {
+    if (state.status !== 'done') return;
+    return () => URL.revokeObjectURL(state.url);
+  }, [state]);
+
+  const handleRender = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState({ status: 'rendering', progress: 0 });
+    try {
+      const film = await renderSequence(timeline, {
+        resolution,
+        signal: controller.signal,
+        onProgress: progress => setState({ status: 'rendering', progress }),
+      });
+      setState({ status: 'done', film, url: URL.createObjectURL(film.blob) });
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        setState({ status: 'idle' });
+        return;
+      }
+      console.error('Render failed:', error);
+      setState({ status: 'failed', error: error instanceof Error ? error.message : 'Render failed' });
+    } finally {
+      controllerRef.current = null;
+    }
+  };
+
+  const fileName = (film: RenderedFilm) => `${title.trim().replace(/[^\w-]+/g, '_') || 'film'}_${resolution}.${film.extension}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="glass-panel bg-[#2F3E32]/95 rounded-2xl w-full max-w-md p-6 space-y-5 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-sm font-bold text-[#D4A373] uppercase tracking-widest">
+            <FilmIcon className="w-4 h-4" /> Render Film
+          </h2>
+          <button onClick={onClose} className="p-1 text-white/40 hover:text-white" title="Close">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="text-xs text-white/60 space-y-1">
+          <p>{sequence.clips.length} scenes &middot; {formatTimecode(sequence.duration)}</p>
+          <p>Output: {format ? format.extension.toUpperCase() : 'not supported by this browser'}</p>
+          <p className="text-white/40">Rendering runs in real time on this device. Keep this tab in the foreground until it finishes.</p>
+        </div>
+
+        <div className="flex gap-2">
+          {[Resolution.P720, Resolution.P1080].map(r => (
+            <button
+              key={r}
+              onClick={() => setResolution(r)}
+              disabled={state.status === 'rendering'}
+              className={`flex-1 py-2 rounded-lg text-xs font-bold border transition-colors disabled:opacity-50 ${resolution === r ? 'bg-[#D4A373] text-[#2F3E32] border-[#D4A373]' : 'border-white/10 text-white/60 hover:text-white'}`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+
+        {state.status === 'rendering' && (
+          <div className="space-y-1">
+            <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-[#D4A373] transition-all duration-200" style={{ width: `${Math.round(state.progress * 100)}%` }} />
+            </div>
+            <p className="text-[10px] text-white/50 font-mono text-right">{Math.round(state.progress * 100)}%</p>
+          </div>
+        )}
+        {state.status === 'failed' && <p className="text-xs text-red-300/80">{state.error}</p>}
+
+        {state.status === 'rendering' ? (
+          <button onClick={() => controllerRef.current?.abort()} className="w-full py-2.5 rounded-lg text-xs font-bold border border-white/20 text-white/70 hover:text-white">
+            Cancel
+          </button>
+        ) : state.status === 'done' ? (
+          <a
+            href={state.url}
+            download={fileName(state.film)}
+            className="w-full py-2.5 rounded-lg text-xs font-bold bg-[#E07A5F] hover:bg-[#c96a51] text-white flex items-center justify-center gap-2"
+          >
+            <DownloadIcon className="w-4 h-4" /> Download {(state.film.blob.size / 1_000_000).toFixed(1)} MB
+          </a>
+        ) : (
+          <button
+            onClick={handleRender}
+            disabled={!format || sequence.clips.length === 0}
+            className="w-full py-2.5 rounded-lg text-xs font-bold bg-[#E07A5F] hover:bg-[#c96a51] text-white disabled:opacity-50"
+          >
+            Render
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RenderDialog;
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import { assetLabel } from '../services/assets';
+import { canReshootAsIs } from '../services/takes';
+import { Asset, ImageFile, Scene } from '../types';
+import { ArrowPathIcon, ChevronDownIcon, ChevronUpIcon, PencilIcon } from './icons';
+import TagEditor from './TagEditor';
+
+interface SceneInspectorProps {
+  scene: Scene;
+  assets: Asset[];
+  onLoadIntoPromptBar: () => void;
+  onRegenerate: () => void;
+  onChangeTags: (tags: string[]) => void;
+  tagSuggestions: string[];
+}
+
+const ImageThumb: React.FC<{ image: ImageFile }> = ({ image }) => {
+  const url = useMemo(() => URL.createObjectURL(image.file), [image.file]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+  return <img src={url} alt={image.file.name} title={image.file.name} className="w-10 h-10 object-cover rounded border border-white/10" />;
+};
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <>
+    <dt className="text-white/40 uppercase tracking-wider">{label}</dt>
+    <dd className="text-white/80 min-w-0">{children}</dd>
+  </>
+);
+
+/**
+ * The scene's prompt, expandable into everything it was generated from, with
+ * shortcuts to edit that request in the prompt bar or run it again unchanged.
+ */
+const SceneInspector: React.FC<SceneInspectorProps> = ({ scene, assets, onLoadIntoPromptBar, onRegenerate, onChangeTags, tagSuggestions }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { settings, provenance } = scene;
+  const composition = provenance?.composition;
+  const lockedAssets = (composition?.continuity.activeAssetIds ?? []).map(id => {
+    const asset = assets.find(a => a.id === id);
+    return asset ? assetLabel(asset) : 'Deleted asset';
+  });
+
+  return (
+    <div className="mt-2 w-full max-w-2xl glass-panel rounded-lg text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 px-3 py-2 text-left" title={isOpen ? 'Hide details' : 'Show how this scene was made'}>
+        <span className="flex-1 min-w-0 truncate text-sm text-[#D4A373] font-mono">{composition?.rawPrompt || scene.prompt}</span>
+        {scene.tags?.map(tag => <span key={tag} className="shrink-0 px-1.5 py-0.5 rounded bg-white/10 text-[10px] text-white/60">{tag}</span>)}
+        {isOpen ? <ChevronUpIcon className="w-4 h-4 text-white/40 shrink-0" /> : <ChevronDownIcon className="w-4 h-4 text-white/40 shrink-0" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3 border-t border-white/10 pt-3 animate-fade-in">
+          <TagEditor tags={scene.tags ?? []} onChange={onChangeTags} suggestions={tagSuggestions} />
+          {scene.titleCard ? (
+            <p className="text-white/50">Title card rendered from text.</p>
+          ) : !settings ? (
+            <p className="text-white/50">This scene was generated before its settings were recorded.</p>
+          ) : (
+            <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1.5 text-[11px]">
+              <Row label="Model">{settings.model}</Row>
+              <Row label="Mode">{settings.mode}</Row>
+              <Row label="Format">{settings.aspectRatio} &middot; {settings.resolution}</Row>
+              {composition && (
+                <>
+                  <Row label="Typed Prompt">{composition.rawPrompt || <span className="text-white/40">None</span>}</Row>
+                  <Row label="Style">{composition.style?.name ?? <span className="text-white/40">None</span>}</Row>
+                  <Row label="Locked Assets">{lockedAssets.length > 0 ? lockedAssets.join(', ') : <span className="text-white/40">None</span>}</Row>
+                  <Row label="Lighting">{composition.continuity.lightingLock ?? <span className="text-white/40">None</span>}</Row>
+                </>
+              )}
+              <Row label="Final Prompt"><span className="text-white/60">{scene.prompt}</span></Row>
+              {provenance?.startFrame && <Row label="Start Frame"><ImageThumb image={provenance.startFrame} /></Row>}
+              {provenance?.endFrame && <Row label="End Frame"><ImageThumb image={provenance.endFrame} /></Row>}
+              {provenance?.isLooping && <Row label="Looping">Yes</Row>}
+              {provenance && provenance.referenceImages.length > 0 && (
+                <Row label="References">
+                  <span className="flex gap-1">{provenance.referenceImages.map((image, i) => <ImageThumb key={i} image={image} />)}</span>
+                </Row>
+              )}
+              <Row label="Generated">{new Date(scene.timestamp).toLocaleString()}</Row>
+            </dl>
+          )}
+
+          {!scene.titleCard && (
+            <div className="flex gap-2">
+              <button
+                onClick={onLoadIntoPromptBar}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-[10px] text-white font-medium"
+                title="Edit this request in the prompt bar; the result becomes a new scene"
+              >
+                <PencilIcon className="w-3 h-3" /> Load into Prompt Bar
+              </button>
+              {canReshootAsIs(scene) && (
+                <button
+                  onClick={onRegenerate}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] text-[10px] font-bold"
+                  title="Run exactly the same request again as a new take"
+                >
+                  <ArrowPathIcon className="w-3 h-3" /> Regenerate Identically
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneInspector;
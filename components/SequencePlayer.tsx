@@ -0,0 +1,423 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { buildSequence, clipIndexAt, formatTimecode, frameAt, Sequence } from '../services/sequence';
+import { OVERLAY_POSITIONS, overlayStyle, TITLE_FONTS } from '../services/titles';
+import { audibleClips, audioClipGainAt, isActiveAt, overlayOpacityAt } from '../services/tracks';
+import { AudioTrack, OverlayClip, Scene } from '../types';
+import { PauseIcon, PlayIcon, XMarkIcon } from './icons';
+
+export interface SequencePosition {
+  sceneId: string;
+  progress: number; // 0-1 through the scene's trimmed range
+}
+
+export interface SequencePlayerHandle {
+  seekToScene: (sceneId: string) => void;
+}
+
+interface SequencePlayerProps {
+  scenes: Scene[];
+  audioTracks: AudioTrack[];
+  overlays: OverlayClip[];
+  startSceneId?: string | null;
+  onPositionChange: (position: SequencePosition | null) => void;
+  onExit: () => void;
+}
+
+// J/K/L shuttle speeds; negative rates play backwards.
+const MAX_SHUTTLE_RATE = 4;
+// Switch clips this close to the out point; the next one is already cued up.
+const CLIP_END_EPSILON = 0.04;
+// How often the UI (scrub bar, timeline playhead) follows the playback clock.
+const POSITION_REPORT_MS = 100;
+// Audio track clips are re-seeked when they wander this far from the sequence clock.
+const AUDIO_DRIFT_SECONDS = 0.3;
+
+/**
+ * Plays the whole timeline back to back. Two <video> elements take turns: while
+ * one plays, the other is cued at the next clip's in point so the switch is gapless.
+ * During a crossfade or wipe both play at once and are blended by their styles.
+ * Audio track clips play on their own hidden <audio> elements, kept in step
+ * with the sequence clock, and overlays are drawn over the picture.
+ */
+const SequencePlayer = forwardRef<SequencePlayerHandle, SequencePlayerProps>(({
+  scenes,
+  audioTracks,
+  overlays,
+  startSceneId,
+  onPositionChange,
+  onExit
+}, ref) => {
+  const sequence = useMemo(() => buildSequence(scenes), [scenes]);
+  const videoRefs = [useRef<HTMLVideoElement>(null), useRef<HTMLVideoElement>(null)];
+  const scrubRef = useRef<HTMLDivElement>(null);
+  const dipRef = useRef<HTMLDivElement>(null);
+  const overlayRefs = useRef(new Map<string, HTMLDivElement>());
+  // One <audio> per audio clip, created on demand and never attached to the DOM.
+  const audioRefs = useRef(new Map<string, HTMLAudioElement>());
+
+  const [time, setTime] = useState(0);
+  const [rate, setRate] = useState(0);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+
+  // The playback engine lives in refs so the animation loop never sees stale state.
+  // `nextStarted` is set once the following clip has begun playing under a transition.
+  const engine = useRef({ time: 0, clip: 0, slot: 0, rate: 0, lastReport: 0, nextStarted: false });
+  const sequenceRef = useRef<Sequence>(sequence);
+  sequenceRef.current = sequence;
+  const sounds = useMemo(() => audibleClips(audioTracks), [audioTracks]);
+  const soundsRef = useRef(sounds);
+  soundsRef.current = sounds;
+  const overlaysRef = useRef(overlays);
+  overlaysRef.current = overlays;
+
+  const report = useCallback((force = false) => {
+    const state = engine.current;
+    const now = performance.now();
+    if (!force && now - state.lastReport < POSITION_REPORT_MS) return;
+    state.lastReport = now;
+    setTime(state.time);
+    const clip = sequenceRef.current.clips[state.clip];
+    onPositionChange(clip ? {
+      sceneId: clip.scene.id,
+      progress: clip.duration > 0 ? (state.time - clip.start) / clip.duration : 0,
+    } : null);
+  }, [onPositionChange]);
+
+  // Points a slot's <video> at a clip, `offset` seconds past its in point.
+  const cue = (slot: number, clipIndex: number, offset = 0) => {
+    const video = videoRefs[slot].current;
+    const clip = sequenceRef.current.clips[clipIndex];
+    if (!video || !clip) return;
+    if (video.dataset.sceneId !== clip.scene.id) {
+      video.src = clip.scene.videoUrl;
+      video.dataset.sceneId = clip.scene.id;
+    }
+    video.currentTime = clip.sourceStart + offset;
+  };
+
+  const play = (slot: number) => {
+    const video = videoRefs[slot].current;
+    if (!video) return;
+    video.playbackRate = Math.max(1, engine.current.rate);
+    video.play().catch(error => console.warn('Sequence playback was interrupted:', error));
+  };
+
+  const pauseAll = () => {
+    videoRefs.forEach(r => r.current?.pause());
+    audioRefs.current.forEach(audio => audio.pause());
+  };
+
+  // Plays the audio clips under the playhead, in step with the sequence clock;
+  // everything else, and all audio while shuttling backwards, is paused.
+  const syncAudio = () => {
+    const state = engine.current;
+    const elements = audioRefs.current;
+    const live = new Set(soundsRef.current.map(clip => clip.id));
+    elements.forEach((audio, id) => {
+      if (live.has(id)) return;
+      audio.pause();
+      audio.removeAttribute('src');
+      elements.delete(id);
+    });
+    for (const clip of soundsRef.current) {
+      let audio = elements.get(clip.id);
+      if (!isActiveAt(clip, state.time) || state.rate <= 0) {
+        audio?.pause();
+        continue;
+      }
+      if (!audio) {
+        audio = new Audio(clip.audioUrl);
+        audio.preload = 'auto';
+        elements.set(clip.id, audio);
+      }
+      const position = clip.offset + (state.time - clip.start);
+      audio.volume = audioClipGainAt(clip, state.time);
+      audio.playbackRate = state.rate;
+      if (audio.paused || Math.abs(audio.currentTime - position) > AUDIO_DRIFT_SECONDS) {
+        audio.currentTime = position;
+      }
+      if (audio.paused) audio.play().catch(error => console.warn('Audio track playback was interrupted:', error));
+    }
+  };
+
+  // Blends the two slots (and any dip to a colour) for the current sequence time.
+  const applyFrame = () => {
+    const state = engine.current;
+    const frame = frameAt(sequenceRef.current, state.time);
+    videoRefs.forEach((videoRef, slot) => {
+      const video = videoRef.current;
+      if (!video) return;
+      const layer = frame.layers.find(l => l.clip.scene.id === video.dataset.sceneId);
+      // The incoming clip sits on top of the one it replaces.
+      video.style.zIndex = slot === state.slot ? '0' : '1';
+      video.style.opacity = String(layer?.opacity ?? 0);
+      video.style.clipPath = layer?.wipe !== undefined ? `inset(0 ${(1 - layer.wipe) * 100}% 0 0)` : '';
+      video.volume = (layer?.volume ?? 0) * (layer?.clip.scene.volume ?? 1);
+    });
+    if (dipRef.current) {
+      dipRef.current.style.backgroundColor = frame.dip?.color ?? 'transparent';
+      dipRef.current.style.opacity = String(frame.dip?.amount ?? 0);
+    }
+    for (const overlay of overlaysRef.current) {
+      const element = overlayRefs.current.get(overlay.id);
+      if (element) element.style.opacity = String(overlayOpacityAt(overlay, state.time));
+    }
+    syncAudio();
+  };
+
+  // `cueNext` can be skipped when staying within the current clip, as reverse shuttle does every frame.
+  const seek = useCallback((target: number, cueNext = true) => {
+    const state = engine.current;
+    const seq = sequenceRef.current;
+    if (seq.clips.length === 0) return;
+    state.time = Math.max(0, Math.min(target, seq.duration));
+    const clipIndex = clipIndexAt(seq, state.time);
+    const clip = seq.clips[clipIndex];
+    const offset = Math.min(state.time - clip.start, clip.duration - CLIP_END_EPSILON);
+    state.clip = clipIndex;
+    cue(state.slot, clipIndex, Math.max(0, offset));
+    // Inside an overlap the next clip is already partway in.
+    const next = seq.clips[clipIndex + 1];
+    state.nextStarted = !!next && state.time >= next.start;
+    if (cueNext || state.nextStarted) cue(1 - state.slot, clipIndex + 1, state.nextStarted ? state.time - next.start : 0);
+    if (state.rate > 0) {
+      play(state.slot);
+      if (state.nextStarted) play(1 - state.slot);
+    }
+    applyFrame();
+    report(true);
+  }, [report]);
+
+  const changeRate = useCallback((next: number) => {
+    const state = engine.current;
+    state.rate = next;
+    setRate(next);
+    if (next > 0) {
+      // Starting from the very end replays from the top.
+      if (state.time >= sequenceRef.current.duration - CLIP_END_EPSILON) seek(0);
+      play(state.slot);
+      if (state.nextStarted) play(1 - state.slot);
+    } else {
+      pauseAll();
+    }
+  }, [seek]);
+
+  useImperativeHandle(ref, () => ({
+    seekToScene: (sceneId: string) => {
+      const clip = sequenceRef.current.clips.find(c => c.scene.id === sceneId);
+      if (clip) seek(clip.start);
+    },
+  }), [seek]);
+
+  // Start at the selected scene, and re-cue whenever the timeline changes underneath us.
+  const hasStarted = useRef(false);
+  useEffect(() => {
+    if (!hasStarted.current) {
+      hasStarted.current = true;
+      const startClip = sequence.clips.find(c => c.scene.id === startSceneId);
+      seek(startClip?.start ?? 0);
+      changeRate(1);
+    } else {
+      seek(engine.current.time);
+    }
+  }, [sequence]);
+
+  // Edits to the tracks or overlays show up without waiting for the next frame.
+  useEffect(() => applyFrame(), [sounds, overlays]);
+
+  useEffect(() => () => onPositionChange(null), [onPositionChange]);
+
+  useEffect(() => () => {
+    audioRefs.current.forEach(audio => {
+      audio.pause();
+      audio.removeAttribute('src');
+    });
+    audioRefs.current.clear();
+  }, []);
+
+  // Playback clock
+  useEffect(() => {
+    let frameId: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = (now - last) / 1000;
+      last = now;
+      const state = engine.current;
+      const seq = sequenceRef.current;
+      const clip = seq.clips[state.clip];
+      const video = videoRefs[state.slot].current;
+
+      if (clip && video && state.rate > 0) {
+        state.time = clip.start + (video.currentTime - clip.sourceStart);
+        const upcoming = seq.clips[state.clip + 1];
+        if (upcoming && !state.nextStarted && state.time >= upcoming.start) {
+          // A crossfade or wipe has begun: bring in the next clip underneath the current one.
+          state.nextStarted = true;
+          play(1 - state.slot);
+        }
+        if (video.ended || video.currentTime >= clip.sourceStart + clip.duration - CLIP_END_EPSILON) {
+          const next = state.clip + 1;
+          if (next < seq.clips.length) {
+            // The other slot was cued at the next in point (or is already playing); swap and cue the one after.
+            const previousSlot = state.slot;
+            const nextVideo = videoRefs[1 - previousSlot].current;
+            state.slot = 1 - state.slot;
+            state.clip = next;
+            state.time = state.nextStarted && nextVideo
+              ? seq.clips[next].start + (nextVideo.currentTime - seq.clips[next].sourceStart)
+              : seq.clips[next].start;
+            if (!state.nextStarted) play(state.slot);
+            state.nextStarted = false;
+            videoRefs[previousSlot].current?.pause();
+            cue(previousSlot, next + 1);
+            applyFrame();
+            report(true);
+          } else {
+            state.time = seq.duration;
+            changeRate(0);
+            report(true);
+          }
+        } else {
+          applyFrame();
+          report();
+        }
+      } else if (clip && state.rate < 0) {
+        // Browsers cannot play video backwards, so reverse shuttle steps by seeking.
+        const target = state.time + state.rate * dt;
+        if (state.time <= 0) changeRate(0);
+        else seek(target, clipIndexAt(seq, target) !== state.clip);
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [seek, changeRate, report]);
+
+  // J/K/L transport; space toggles play, Escape leaves sequence mode.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const current = engine.current.rate;
+      const key = e.key.toLowerCase();
+      if (key === 'l') changeRate(current <= 0 ? 1 : Math.min(MAX_SHUTTLE_RATE, current * 2));
+      else if (key === 'j') changeRate(current >= 0 ? -1 : Math.max(-MAX_SHUTTLE_RATE, current * 2));
+      else if (key === 'k') changeRate(0);
+      else if (key === ' ') changeRate(current === 0 ? 1 : 0);
+      else if (key === 'escape') onExit();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [changeRate, onExit]);
+
+  // Scrubbing pauses playback and resumes it at the new position on release.
+  const rateBeforeScrub = useRef(0);
+  const timeAt = (clientX: number) => {
+    const rect = scrubRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * sequence.duration;
+  };
+  const handleScrubStart = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    rateBeforeScrub.current = engine.current.rate;
+    changeRate(0);
+    setIsScrubbing(true);
+    seek(timeAt(e.clientX));
+  };
+  const handleScrubMove = (e: React.PointerEvent) => {
+    if (isScrubbing) seek(timeAt(e.clientX));
+  };
+  const handleScrubEnd = () => {
+    if (!isScrubbing) return;
+    setIsScrubbing(false);
+    if (rateBeforeScrub.current !== 0) changeRate(rateBeforeScrub.current);
+  };
+
+  if (sequence.clips.length === 0) {
+    return (
+      <div className="text-center text-white/40">
+        <p>Nothing to play yet.</p>
+        <button onClick={onExit} className="mt-2 text-xs text-[#D4A373] hover:text-white">Back to scene view</button>
+      </div>
+    );
+  }
+
+  const percent = (seconds: number) => `${(seconds / sequence.duration) * 100}%`;
+  const currentClip = sequence.clips[clipIndexAt(sequence, time)];
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-3 animate-fade-in">
+      <div className="relative flex-1 min-h-0 w-full flex items-center justify-center">
+        {/* Opacity, wipe and volume are driven per frame by the playback clock. */}
+        {videoRefs.map((videoRef, slot) => (
+          <video
+            key={slot}
+            ref={videoRef}
+            playsInline
+            className="absolute max-w-full max-h-full shadow-2xl rounded-xl border border-white/10 opacity-0"
+          />
+        ))}
+        <div ref={dipRef} className="absolute inset-0 z-10 pointer-events-none opacity-0" />
+        {overlays.map(overlay => {
+          const style = overlayStyle(overlay);
+          return (
+            <div
+              key={overlay.id}
+              ref={element => {
+                if (element) overlayRefs.current.set(overlay.id, element);
+                else overlayRefs.current.delete(overlay.id);
+              }}
+              className="absolute inset-x-0 -translate-y-1/2 z-20 px-[10%] pointer-events-none opacity-0 text-center text-xl md:text-2xl font-semibold whitespace-pre-line [text-shadow:0_2px_8px_rgba(0,0,0,0.8)]"
+              style={{ top: `${OVERLAY_POSITIONS[style.position].y * 100}%`, fontFamily: TITLE_FONTS[style.font].family, color: style.color }}
+            >
+              {overlay.text}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="w-full max-w-3xl glass-panel rounded-lg px-3 py-2 space-y-2">
+        <div
+          ref={scrubRef}
+          onPointerDown={handleScrubStart}
+          onPointerMove={handleScrubMove}
+          onPointerUp={handleScrubEnd}
+          className="relative h-3 bg-black/40 rounded cursor-pointer select-none touch-none"
+        >
+          <div className="absolute inset-y-0 left-0 bg-[#D4A373]/40 rounded-l" style={{ width: percent(time) }} />
+          {sequence.clips.slice(1).map(clip => (
+            <div key={clip.scene.id} className="absolute inset-y-0 w-px bg-white/30" style={{ left: percent(clip.start) }} />
+          ))}
+          <div className="absolute -inset-y-1 w-0.5 -ml-px bg-[#E07A5F]" style={{ left: percent(time) }} />
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <button
+            onClick={() => changeRate(rate === 0 ? 1 : 0)}
+            className="p-1.5 bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] rounded-full"
+            title={rate === 0 ? 'Play (L / Space)' : 'Pause (K / Space)'}
+          >
+            {rate === 0 ? <PlayIcon className="w-3 h-3" /> : <PauseIcon className="w-3 h-3" />}
+          </button>
+          <span className="font-mono text-white/70">{formatTimecode(time)} / {formatTimecode(sequence.duration)}</span>
+          {rate !== 0 && rate !== 1 && <span className="font-mono text-[#E07A5F]">{rate > 0 ? `${rate}x` : `-${-rate}x`}</span>}
+          <span className="flex-1 min-w-0 truncate text-[#D4A373]">
+            SCENE {currentClip.index + 1}
+            <span className="text-white/40 ml-2">{currentClip.scene.prompt}</span>
+          </span>
+          <span className="text-[10px] text-white/30 hidden md:inline">J / K / L</span>
+          <button onClick={onExit} className="p-1 text-white/40 hover:text-white" title="Exit sequence (Esc)">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default SequencePlayer;
@@ -3,27 +3,24 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useRef } from 'react';
-import { Asset } from '../types';
-import { ArrowRightIcon, PlusIcon, XMarkIcon } from './icons';
+import { Asset, StoryboardItem } from '../types';
+import { ArrowRightIcon, MagnifyingGlassIcon, PlusIcon, XMarkIcon } from './icons';
 import { generateStoryboardDescription } from '../services/geminiService';
+import { GenerationError } from '../services/errors';
+import { assetMatches, EMPTY_FILTER } from '../services/search';
 
 interface StoryboardProps {
     assets: Asset[];
+    items: StoryboardItem[];
+    onChangeItems: (items: StoryboardItem[], coalesceKey?: string) => void;
     onInjectToTimeline: (sceneData: any) => void;
 }
 
-interface BoardItem {
-    id: string;
-    assetId: string;
-    x: number;
-    y: number;
-    note: string;
-}
-
-const Storyboard: React.FC<StoryboardProps> = ({ assets, onInjectToTimeline }) => {
-    const [items, setItems] = useState<BoardItem[]>([]);
+const Storyboard: React.FC<StoryboardProps> = ({ assets, items, onChangeItems, onInjectToTimeline }) => {
     const [draggingId, setDraggingId] = useState<string | null>(null);
     const [isExecuting, setIsExecuting] = useState(false);
+    const [drawerQuery, setDrawerQuery] = useState('');
+    const drawerAssets = assets.filter(asset => assetMatches(asset, { ...EMPTY_FILTER, query: drawerQuery }));
     const boardRef = useRef<HTMLDivElement>(null);
 
     const handleDragStart = (e: React.DragEvent, id: string) => {
@@ -43,7 +40,7 @@ const Storyboard: React.FC<StoryboardProps> = ({ assets, onInjectToTimeline }) =
             const x = e.clientX - rect.left - 50; // offset to center
             const y = e.clientY - rect.top - 50;
 
-            setItems(prev => prev.map(item => 
+            onChangeItems(items.map(item => 
                 item.id === draggingId ? { ...item, x, y } : item
             ));
             setDraggingId(null);
@@ -51,22 +48,22 @@ const Storyboard: React.FC<StoryboardProps> = ({ assets, onInjectToTimeline }) =
     };
 
     const addItem = (assetId: string) => {
-        const newItem: BoardItem = {
+        const newItem: StoryboardItem = {
             id: globalThis.crypto?.randomUUID() ?? Date.now().toString(),
             assetId,
             x: Math.random() * 400 + 50,
             y: Math.random() * 300 + 50,
             note: "Scene Note..."
         };
-        setItems(prev => [...prev, newItem]);
+        onChangeItems([...items, newItem]);
     };
 
     const updateNote = (id: string, text: string) => {
-        setItems(prev => prev.map(item => item.id === id ? { ...item, note: text } : item));
+        onChangeItems(items.map(item => item.id === id ? { ...item, note: text } : item), `note:${id}`);
     };
 
     const removeItem = (id: string) => {
-        setItems(prev => prev.filter(item => item.id !== id));
+        onChangeItems(items.filter(item => item.id !== id));
     };
 
     const handleExecute = async () => {
@@ -88,7 +85,7 @@ const Storyboard: React.FC<StoryboardProps> = ({ assets, onInjectToTimeline }) =
             onInjectToTimeline({ prompt });
         } catch (error) {
             console.error("Storyboard execution failed", error);
-            alert("Failed to generate scene description.");
+            alert(error instanceof GenerationError ? error.message : "Failed to generate scene description.");
         } finally {
             setIsExecuting(false);
         }
@@ -155,10 +152,22 @@ const Storyboard: React.FC<StoryboardProps> = ({ assets, onInjectToTimeline }) =
             </div>
 
             {/* Mini Drawer for Storyboard */}
-            <div className="w-20 bg-[#272757] border-l border-[#3b3b64] flex flex-col items-center py-4 gap-4 overflow-y-auto z-20">
-                 <div className="text-[10px] text-[#C2B280] font-mono rotate-90 whitespace-nowrap mb-4">ASSETS</div>
-                 {assets.map(asset => (
-                     <div key={asset.id} onClick={() => addItem(asset.id)} className="w-12 h-12 rounded border border-[#3b3b64] cursor-pointer hover:border-[#E35336] overflow-hidden shrink-0">
+            <div className="w-28 bg-[#272757] border-l border-[#3b3b64] flex flex-col items-center py-4 gap-4 overflow-y-auto z-20">
+                 <div className="text-[10px] text-[#C2B280] font-mono whitespace-nowrap">ASSETS</div>
+                 <label className="mx-2 flex items-center gap-1 bg-black/30 border border-[#3b3b64] rounded px-1.5 py-1 focus-within:border-[#C2B280]">
+                     <MagnifyingGlassIcon className="w-3 h-3 text-gray-500 shrink-0" />
+                     <input
+                        value={drawerQuery}
+                        onChange={(e) => setDrawerQuery(e.target.value)}
+                        placeholder="Search"
+                        className="w-full min-w-0 bg-transparent text-[10px] text-white font-mono placeholder-gray-500 focus:outline-none"
+                     />
+                 </label>
+                 {drawerAssets.length === 0 && assets.length > 0 && (
+                     <div className="text-[10px] text-gray-500 font-mono text-center px-2">NO MATCHES</div>
+                 )}
+                 {drawerAssets.map(asset => (
+                     <div key={asset.id} onClick={() => addItem(asset.id)} title={asset.name || asset.prompt} className="w-12 h-12 rounded border border-[#3b3b64] cursor-pointer hover:border-[#E35336] overflow-hidden shrink-0">
                          <img src={asset.imageUrl} className="w-full h-full object-cover" />
                      </div>
                  ))}
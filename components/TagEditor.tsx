@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useId, useState } from 'react';
+import { normalizeTag } from '../services/search';
+import { TagIcon, XMarkIcon } from './icons';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags already used elsewhere in the project, offered as completions.
+  suggestions: string[];
+}
+
+/** Tag chips with an input that adds a tag on Enter or comma. */
+const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, suggestions }) => {
+  const [draft, setDraft] = useState('');
+  const listId = useId();
+
+  const addTag = () => {
+    const tag = normalizeTag(draft);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 bg-black/30 border border-white/10 rounded px-1.5 py-1 focus-within:border-[#D4A373]">
+      <TagIcon className="w-3 h-3 text-white/30" />
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-0.5 pl-1.5 pr-0.5 py-0.5 rounded bg-[#D4A373]/20 text-[10px] text-[#D4A373]">
+          {tag}
+          <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="text-[#D4A373]/60 hover:text-white" title={`Remove ${tag}`}>
+            <XMarkIcon className="w-2.5 h-2.5" />
+          </button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && addTag()}
+        list={listId}
+        placeholder={tags.length === 0 ? 'Add tags...' : ''}
+        className="flex-1 min-w-[4rem] bg-transparent text-[10px] text-white placeholder-white/30 focus:outline-none"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagEditor;
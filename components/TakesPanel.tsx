@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { canReshootAsIs, diffWords, getSelectedTakeId, getTakes } from '../services/takes';
+import { Scene } from '../types';
+import { ArrowPathIcon, CheckIcon, TrashIcon } from './icons';
+
+interface TakesPanelProps {
+  scene: Scene;
+  viewedTakeId: string;
+  onViewTake: (takeId: string) => void;
+  onSelectTake: (takeId: string) => void;
+  onRemoveTake: (takeId: string) => void;
+  onReshoot: () => void;
+  onReshootAsIs: () => void;
+}
+
+const DIFF_STYLES = {
+  same: 'text-white/50',
+  added: 'text-emerald-300 bg-emerald-400/10 rounded px-0.5',
+  removed: 'text-red-300/80 line-through',
+};
+
+/**
+ * Lists a scene's takes. Clicking a take previews it in the player; only the
+ * selected take (marked with a check) plays in sequence and exports.
+ */
+const TakesPanel: React.FC<TakesPanelProps> = ({
+  scene,
+  viewedTakeId,
+  onViewTake,
+  onSelectTake,
+  onRemoveTake,
+  onReshoot,
+  onReshootAsIs
+}) => {
+  const takes = getTakes(scene);
+  const selectedId = getSelectedTakeId(scene);
+  const viewed = takes.find(t => t.id === viewedTakeId) ?? takes.find(t => t.id === selectedId)!;
+  const isPreviewing = viewed.id !== selectedId;
+
+  return (
+    <div className="w-full max-w-2xl glass-panel rounded-lg px-3 py-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-bold text-[#D4A373] uppercase tracking-widest shrink-0">Takes</span>
+        <div className="flex-1 min-w-0 flex items-center gap-1 overflow-x-auto scrollbar-thin">
+          {takes.map((take, i) => (
+            <button
+              key={take.id}
+              onClick={() => onViewTake(take.id)}
+              className={`shrink-0 flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-mono border transition-colors ${
+                take.id === viewed.id ? 'border-[#D4A373] text-white bg-white/10' : 'border-white/10 text-white/50 hover:text-white'
+              }`}
+              title={take.prompt}
+            >
+              {take.id === selectedId && <CheckIcon className="w-3 h-3 text-[#D4A373]" />}
+              {i + 1}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onReshoot}
+          className="shrink-0 flex items-center gap-1 text-[10px] text-white/60 hover:text-white"
+          title="Open this take's prompt and settings in the prompt bar; the result becomes a new take"
+        >
+          <ArrowPathIcon className="w-3 h-3" /> Reshoot
+        </button>
+        {canReshootAsIs(scene) && (
+          <button
+            onClick={onReshootAsIs}
+            className="shrink-0 text-[10px] text-[#E07A5F] hover:text-white font-medium"
+            title="Generate another take from exactly the same request"
+          >
+            Same Again
+          </button>
+        )}
+      </div>
+
+      {isPreviewing && (
+        <div className="flex items-start gap-3 pt-2 border-t border-white/10">
+          <p className="flex-1 min-w-0 text-xs leading-relaxed" title="Prompt changes from the selected take">
+            {diffWords(scene.prompt, viewed.prompt).map((part, i) => (
+              <span key={i} className={DIFF_STYLES[part.kind]}>{part.text} </span>
+            ))}
+          </p>
+          <button
+            onClick={() => onSelectTake(viewed.id)}
+            className="shrink-0 flex items-center gap-1 px-2 py-1 bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] rounded text-[10px] font-bold"
+          >
+            <CheckIcon className="w-3 h-3" /> Use This Take
+          </button>
+          <button onClick={() => onRemoveTake(viewed.id)} className="shrink-0 p-1 text-white/40 hover:text-red-400" title="Delete this take">
+            <TrashIcon className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TakesPanel;
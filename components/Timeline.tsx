@@ -2,32 +2,160 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import { Scene } from '../types';
-import { ChevronDownIcon, ChevronUpIcon, PlayIcon, PlusIcon, ScissorsIcon, TrashIcon } from './icons';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNow } from '../hooks/useNow';
+import { isFilterActive, sceneMatches } from '../services/search';
+import { formatTimecode, getTrimmedDuration, getTrimRange, isTrimmed } from '../services/sequence';
+import { AudioTrack, GenerationJob, LibraryFilter, OverlayClip, SavedFilterView, Scene, SceneTransition } from '../types';
+import { ArrowPathIcon, ChevronDownIcon, ChevronUpIcon, PencilIcon, PlayIcon, PlusIcon, RowsIcon, ScissorsIcon, TextModeIcon, TrashIcon, XMarkIcon } from './icons';
+import { jobElapsed, JobProgressBar } from './JobQueuePanel';
+import LibraryFilterBar from './LibraryFilterBar';
+import { SequencePosition } from './SequencePlayer';
+import TrackLanes from './TrackLanes';
+import TransitionPicker, { TRANSITION_OPTIONS } from './TransitionPicker';
 
 interface TimelineProps {
   scenes: Scene[];
+  audioTracks: AudioTrack[];
+  overlays: OverlayClip[];
   selectedSceneId: string | null;
   onSelectScene: (id: string) => void;
+  isSequenceMode: boolean;
+  onToggleSequenceMode: () => void;
+  sequencePosition: SequencePosition | null;
   onDeleteScene: (id: string) => void;
   onExtendScene: (scene: Scene) => void;
+  onReshootScene: (scene: Scene) => void;
+  onMoveScene: (id: string, toIndex: number) => void;
+  onSetTransition: (sceneId: string, transition: SceneTransition | undefined) => void;
+  onGenerateBridge: (sceneId: string) => void;
+  onChangeAudioTracks: (tracks: AudioTrack[], coalesceKey?: string) => void;
+  onChangeOverlays: (overlays: OverlayClip[], coalesceKey?: string) => void;
+  onSetSceneVolume: (sceneId: string, volume: number) => void;
+  onAddTitleCard: () => void;
+  onEditTitleCard: (scene: Scene) => void;
+  filter: LibraryFilter;
+  onChangeFilter: (filter: LibraryFilter) => void;
+  filterViews: SavedFilterView[];
+  onSaveFilterView: (name: string) => void;
+  onDeleteFilterView: (id: string) => void;
+  tagSuggestions: string[];
+  insertAfterSelected: boolean;
+  onToggleInsertAfterSelected: () => void;
   onAddScene: () => void;
+  pendingJobs: GenerationJob[];
+  onCancelJob: (id: string) => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
 }
 
+const DropMarker: React.FC = () => (
+  <div className="w-1 h-36 -mx-0.5 bg-[#D4A373] rounded-full shrink-0 shadow-[0_0_8px_rgba(212,163,115,0.6)]" />
+);
+
 const Timeline: React.FC<TimelineProps> = ({
   scenes,
+  audioTracks,
+  overlays,
   selectedSceneId,
   onSelectScene,
+  isSequenceMode,
+  onToggleSequenceMode,
+  sequencePosition,
   onDeleteScene,
   onExtendScene,
+  onReshootScene,
+  onMoveScene,
+  onSetTransition,
+  onGenerateBridge,
+  onChangeAudioTracks,
+  onChangeOverlays,
+  onSetSceneVolume,
+  onAddTitleCard,
+  onEditTitleCard,
+  filter,
+  onChangeFilter,
+  filterViews,
+  onSaveFilterView,
+  onDeleteFilterView,
+  tagSuggestions,
+  insertAfterSelected,
+  onToggleInsertAfterSelected,
   onAddScene,
+  pendingJobs,
+  onCancelJob,
   isCollapsed,
   onToggleCollapse
 }) => {
-  const [hoveredTransitionIndex, setHoveredTransitionIndex] = useState<number | null>(null);
+  // The scene whose outgoing transition is being edited, and where its bubble sits on screen.
+  const [transitionEditor, setTransitionEditor] = useState<{ sceneId: string; x: number; y: number } | null>(null);
+  // 'tracks' lays the timeline out against time, with its audio and text tracks.
+  const [view, setView] = useState<'scenes' | 'tracks'>('scenes');
+  const [draggedSceneId, setDraggedSceneId] = useState<string | null>(null);
+  // Gap the dragged scene would drop into: 0 is before the first scene.
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const now = useNow(pendingJobs.length > 0);
+  // Placeholders say where each result will land: reshoots become a take of their
+  // scene and inserts go after theirs, so only the rest count on from the end.
+  let appendedCount = 0;
+  const pendingLabels = pendingJobs.map(job => {
+    const reshot = scenes.findIndex(s => s.id === job.reshootSceneId);
+    if (reshot >= 0) return `SCENE ${reshot + 1} · NEW TAKE`;
+    const anchor = scenes.findIndex(s => s.id === job.afterSceneId);
+    if (anchor >= 0) return `AFTER SCENE ${anchor + 1}`;
+    return `SCENE ${scenes.length + ++appendedCount}`;
+  });
+  const closeTransitionEditor = useCallback(() => setTransitionEditor(null), []);
+  const stripRef = useRef<HTMLDivElement>(null);
+  // Scenes that miss the search stay in place, dimmed, so order and transitions still read.
+  const isFiltering = isFilterActive(filter);
+  const matchingSceneIds = new Set(scenes.filter(s => sceneMatches(s, filter)).map(s => s.id));
+
+  // Playhead: placed over the playing scene's card and kept in view as playback moves on.
+  const playingCard = sequencePosition
+    ? stripRef.current?.querySelector<HTMLElement>(`[data-scene-id="${sequencePosition.sceneId}"]`)
+    : null;
+  const playheadLeft = playingCard ? playingCard.offsetLeft + sequencePosition!.progress * playingCard.offsetWidth : null;
+  useEffect(() => {
+    playingCard?.scrollIntoView({ block: 'nearest', inline: 'nearest', behavior: 'smooth' });
+  }, [sequencePosition?.sceneId]);
+  useEffect(() => {
+    const firstMatch = isFiltering && scenes.find(s => matchingSceneIds.has(s.id));
+    if (firstMatch) stripRef.current?.querySelector(`[data-scene-id="${firstMatch.id}"]`)?.scrollIntoView({ block: 'nearest', inline: 'start', behavior: 'smooth' });
+  }, [filter]);
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!draggedSceneId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientX < rect.left + rect.width / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const from = scenes.findIndex(s => s.id === draggedSceneId);
+    if (draggedSceneId && from >= 0 && dropIndex !== null) {
+      // Removing the scene first shifts every later gap one to the left.
+      onMoveScene(draggedSceneId, dropIndex > from ? dropIndex - 1 : dropIndex);
+    }
+    setDraggedSceneId(null);
+    setDropIndex(null);
+  };
+
+  // Arrow keys walk the timeline; with Alt held they move the focused scene.
+  const handleSceneKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const step = e.key === 'ArrowLeft' ? -1 : 1;
+    const target = index + step;
+    if (target < 0 || target >= scenes.length) return;
+    if (e.altKey) {
+      onMoveScene(scenes[index].id, target);
+    } else {
+      onSelectScene(scenes[target].id);
+      (e.currentTarget.parentElement?.querySelectorAll<HTMLElement>('[data-scene-card]')[target])?.focus();
+    }
+  };
 
   return (
     <div className={`bg-[#1e2922] border-t border-white/10 flex flex-col shrink-0 transition-all duration-300 ${isCollapsed ? 'h-10' : 'h-64'} z-30`}>
@@ -39,8 +167,64 @@ const Timeline: React.FC<TimelineProps> = ({
             <span className="text-xs font-bold text-[#D4A373] uppercase tracking-widest">Story Timeline</span>
             <div className="h-4 w-px bg-white/20"></div>
             <span className="text-xs text-white/50">{scenes.length} Scenes</span>
+            {!isCollapsed && view === 'scenes' && (
+              <div className="w-64">
+                <LibraryFilterBar
+                  filter={filter}
+                  onChange={onChangeFilter}
+                  scope="scenes"
+                  tags={tagSuggestions}
+                  views={filterViews}
+                  onSaveView={onSaveFilterView}
+                  onDeleteView={onDeleteFilterView}
+                  matchCount={matchingSceneIds.size}
+                  total={scenes.length}
+                />
+              </div>
+            )}
+            {pendingJobs.length > 0 && (
+                <span className="text-xs text-[#D4A373]">{pendingJobs.length} Rendering</span>
+            )}
         </div>
         <div className="flex items-center gap-4">
+           {!isCollapsed && (
+             <button
+                onClick={(e) => { e.stopPropagation(); setView(view === 'scenes' ? 'tracks' : 'scenes'); }}
+                className={`text-xs flex items-center gap-1 font-medium transition-colors ${view === 'tracks' ? 'text-[#D4A373]' : 'text-white/60 hover:text-white'}`}
+                title="Switch between scene cards and the multi-track view"
+              >
+                <RowsIcon className="w-3 h-3" /> {view === 'tracks' ? 'Scene Cards' : 'Tracks'}
+              </button>
+           )}
+           {!isCollapsed && (
+             <button
+                onClick={(e) => { e.stopPropagation(); onToggleSequenceMode(); }}
+                disabled={scenes.length === 0}
+                className={`text-xs flex items-center gap-1 font-medium transition-colors disabled:opacity-30 ${isSequenceMode ? 'text-[#D4A373]' : 'text-white/60 hover:text-white'}`}
+                title="Play every scene back to back (J / K / L)"
+              >
+                <PlayIcon className="w-3 h-3" /> {isSequenceMode ? 'Stop Sequence' : 'Play Sequence'}
+              </button>
+           )}
+           {!isCollapsed && (
+             <label
+                onClick={(e) => e.stopPropagation()}
+                className="text-xs flex items-center gap-1.5 text-white/50 hover:text-white cursor-pointer"
+                title="Insert new generations after the selected scene instead of at the end"
+             >
+                <input type="checkbox" checked={insertAfterSelected} onChange={onToggleInsertAfterSelected} className="accent-[#D4A373]" />
+                Insert after selected
+             </label>
+           )}
+           {!isCollapsed && (
+             <button
+                onClick={(e) => { e.stopPropagation(); onAddTitleCard(); }}
+                className="text-xs flex items-center gap-1 text-white/60 hover:text-white transition-colors font-medium"
+                title="Insert an opening title or chapter card"
+              >
+                <TextModeIcon className="w-3 h-3" /> Title Card
+              </button>
+           )}
            {!isCollapsed && (
              <button 
                 onClick={(e) => { e.stopPropagation(); onAddScene(); }}
@@ -53,62 +237,158 @@ const Timeline: React.FC<TimelineProps> = ({
         </div>
       </div>
       
-      {!isCollapsed && (
+      {!isCollapsed && view === 'tracks' && (
+        <TrackLanes
+          scenes={scenes}
+          audioTracks={audioTracks}
+          overlays={overlays}
+          selectedSceneId={selectedSceneId}
+          onSelectScene={onSelectScene}
+          sequencePosition={sequencePosition}
+          onChangeAudioTracks={onChangeAudioTracks}
+          onChangeOverlays={onChangeOverlays}
+          onSetSceneVolume={onSetSceneVolume}
+        />
+      )}
+
+      {!isCollapsed && view === 'scenes' && (
         <div className="flex-1 overflow-x-auto p-4 flex items-center animate-fade-in scrollbar-thin">
-          {scenes.length === 0 ? (
+          {scenes.length === 0 && pendingJobs.length === 0 ? (
              <div className="w-full flex flex-col items-center justify-center text-white/30 border-2 border-dashed border-white/10 rounded-xl h-40 m-4">
                <p className="text-sm">Timeline Empty</p>
                <p className="text-xs mt-1">Generate a video to start your story</p>
              </div>
           ) : (
-            <div className="flex items-center">
+            <div ref={stripRef} className="relative flex items-center">
+              {playheadLeft !== null && (
+                <div
+                  className="absolute -top-2 -bottom-2 w-0.5 bg-[#E07A5F] z-20 pointer-events-none transition-[left] duration-100 ease-linear"
+                  style={{ left: playheadLeft }}
+                />
+              )}
               {scenes.map((scene, index) => {
                 const isSelected = selectedSceneId === scene.id;
+                const isPlaying = sequencePosition?.sceneId === scene.id;
+                const isDimmed = isFiltering && !matchingSceneIds.has(scene.id);
+                const takeCount = scene.takes?.length ?? 1;
+                const transition = scene.transitionOut && TRANSITION_OPTIONS.find(o => o.type === scene.transitionOut!.type);
                 return (
                   <React.Fragment key={scene.id}>
+                    {dropIndex === index && <DropMarker />}
                     {/* Scene Card */}
                     <div 
+                      data-scene-card
+                      data-scene-id={scene.id}
+                      tabIndex={0}
+                      draggable
+                      onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDraggedSceneId(scene.id); }}
+                      onDragEnd={() => { setDraggedSceneId(null); setDropIndex(null); }}
+                      onDragOver={(e) => handleDragOver(e, index)}
+                      onDrop={handleDrop}
+                      onKeyDown={(e) => handleSceneKeyDown(e, index)}
                       onClick={() => onSelectScene(scene.id)}
-                      className={`relative group shrink-0 w-64 h-36 rounded-xl overflow-hidden border-2 transition-all cursor-pointer ${
+                      title="Drag or press Alt+Arrow to reorder"
+                      className={`relative group shrink-0 w-64 h-36 rounded-xl overflow-hidden border-2 transition-all cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-[#E07A5F] ${
+                        isPlaying ? 'border-[#E07A5F] shadow-[0_0_15px_rgba(224,122,95,0.4)]' :
                         isSelected ? 'border-[#D4A373] shadow-[0_0_15px_rgba(212,163,115,0.3)]' : 'border-white/10 hover:border-white/30'
-                      }`}
+                      } ${draggedSceneId === scene.id ? 'opacity-40' : isDimmed ? 'opacity-20 grayscale hover:opacity-60' : ''}`}
                     >
-                      <video src={scene.videoUrl} className="w-full h-full object-cover pointer-events-none" />
+                      {/* The media fragment makes the thumbnail show the in point */}
+                      <video src={`${scene.videoUrl}#t=${getTrimRange(scene).start}`} className="w-full h-full object-cover pointer-events-none" />
                       <div className="absolute top-2 left-2 px-2 py-0.5 bg-black/70 rounded text-[10px] font-mono text-[#D4A373]">
                         SCENE {index + 1}
+                        {scene.titleCard && <span className="text-white/50 ml-1.5">TITLE</span>}
+                        {takeCount > 1 && <span className="text-white/50 ml-1.5">{takeCount} TAKES</span>}
                       </div>
+                      {scene.tags && scene.tags.length > 0 && (
+                        <div className="absolute bottom-2 left-2 right-16 flex gap-1 overflow-hidden">
+                          {scene.tags.map(tag => <span key={tag} className="shrink-0 px-1.5 py-0.5 bg-black/70 rounded text-[9px] text-white/70">{tag}</span>)}
+                        </div>
+                      )}
+                      {scene.duration !== undefined && (
+                        <div className="absolute bottom-2 right-2 px-2 py-0.5 bg-black/70 rounded text-[10px] font-mono text-white/70 flex items-center gap-1">
+                          {isTrimmed(scene) && <ScissorsIcon className="w-3 h-3 text-[#D4A373]" />}
+                          {formatTimecode(getTrimmedDuration(scene) ?? scene.duration)}
+                        </div>
+                      )}
                       <div className={`absolute inset-0 bg-black/40 flex items-center justify-center gap-3 transition-opacity ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
                           <button onClick={(e) => {e.stopPropagation(); onSelectScene(scene.id)}} className="p-2 bg-white/10 hover:bg-white/20 rounded-full backdrop-blur-sm"><PlayIcon className="w-4 h-4 text-white" /></button>
-                          <button onClick={(e) => {e.stopPropagation(); onExtendScene(scene)}} className="p-2 bg-[#E07A5F]/80 hover:bg-[#E07A5F] rounded-full backdrop-blur-sm"><ScissorsIcon className="w-4 h-4 text-white" /></button>
+                          {scene.titleCard ? (
+                            <button onClick={(e) => {e.stopPropagation(); onEditTitleCard(scene)}} className="p-2 bg-white/10 hover:bg-white/20 rounded-full backdrop-blur-sm" title="Edit title card"><PencilIcon className="w-4 h-4 text-white" /></button>
+                          ) : (
+                            <>
+                              <button onClick={(e) => {e.stopPropagation(); onReshootScene(scene)}} className="p-2 bg-white/10 hover:bg-white/20 rounded-full backdrop-blur-sm" title="Reshoot as a new take"><ArrowPathIcon className="w-4 h-4 text-white" /></button>
+                              <button onClick={(e) => {e.stopPropagation(); onExtendScene(scene)}} className="p-2 bg-[#E07A5F]/80 hover:bg-[#E07A5F] rounded-full backdrop-blur-sm"><ScissorsIcon className="w-4 h-4 text-white" /></button>
+                            </>
+                          )}
                           <button onClick={(e) => {e.stopPropagation(); onDeleteScene(scene.id)}} className="p-2 bg-red-600/80 hover:bg-red-600 rounded-full backdrop-blur-sm"><TrashIcon className="w-4 h-4 text-white" /></button>
                       </div>
                     </div>
 
+                    {index === scenes.length - 1 && dropIndex === scenes.length && <DropMarker />}
+
                     {/* Transition Bubble */}
                     {index < scenes.length - 1 && (
                         <div className="w-12 h-px bg-white/10 relative flex justify-center shrink-0">
                              <button
-                                onMouseEnter={() => setHoveredTransitionIndex(index)}
-                                onMouseLeave={() => setHoveredTransitionIndex(null)}
-                                className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-[#2F3E32] border border-white/20 hover:border-[#D4A373] hover:scale-110 transition-all flex items-center justify-center z-10"
-                                title="Add Transition"
+                                onMouseDown={(e) => { if (transitionEditor?.sceneId === scene.id) e.stopPropagation(); }}
+                                onClick={(e) => {
+                                  const rect = e.currentTarget.getBoundingClientRect();
+                                  setTransitionEditor(transitionEditor?.sceneId === scene.id ? null : { sceneId: scene.id, x: rect.left + rect.width / 2, y: rect.top });
+                                }}
+                                className={`absolute top-1/2 -translate-y-1/2 h-6 rounded-full bg-[#2F3E32] border hover:border-[#D4A373] hover:scale-110 transition-all flex items-center justify-center z-10 ${
+                                  transition ? 'px-1.5 border-[#D4A373]/60' : 'w-6 border-white/20'
+                                }`}
+                                title={transition ? `${transition.label} (${scene.transitionOut!.duration}s)` : 'Add Transition'}
                              >
-                                 <PlusIcon className="w-3 h-3 text-white/50" />
+                                 {transition
+                                   ? <span className="text-[9px] font-bold uppercase text-[#D4A373]">{transition.short}</span>
+                                   : <PlusIcon className="w-3 h-3 text-white/50" />}
                              </button>
-                             {hoveredTransitionIndex === index && (
-                                 <div className="absolute bottom-full mb-2 bg-black/80 text-white text-[10px] px-2 py-1 rounded whitespace-nowrap">
-                                     Bridge Scene
-                                 </div>
-                             )}
                         </div>
                     )}
                   </React.Fragment>
                 );
               })}
+
+              {/* Placeholders for generations still in the queue */}
+              {pendingJobs.map((job, index) => (
+                <React.Fragment key={job.id}>
+                  {(scenes.length > 0 || index > 0) && <div className="w-12 h-px bg-white/10 shrink-0" />}
+                  <div className="relative shrink-0 w-64 h-36 rounded-xl overflow-hidden border-2 border-dashed border-[#D4A373]/40 bg-black/30 flex flex-col justify-between p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="px-2 py-0.5 bg-black/70 rounded text-[10px] font-mono text-[#D4A373]">
+                        {pendingLabels[index]}
+                      </div>
+                      <button onClick={() => onCancelJob(job.id)} className="p-1 text-white/40 hover:text-white" title="Cancel">
+                        <XMarkIcon className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <p className="text-[10px] text-white/60 line-clamp-2">{job.label}</p>
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between text-[10px]">
+                        <span className="uppercase font-bold text-[#D4A373]">{job.status === 'queued' ? 'Queued' : 'Rendering'}</span>
+                        <span className="font-mono text-white/40">{jobElapsed(job, now)}</span>
+                      </div>
+                      <JobProgressBar job={job} now={now} />
+                    </div>
+                  </div>
+                </React.Fragment>
+              ))}
             </div>
           )}
         </div>
       )}
+
+      {transitionEditor && scenes.some(s => s.id === transitionEditor.sceneId) && (
+        <TransitionPicker
+          transition={scenes.find(s => s.id === transitionEditor.sceneId)!.transitionOut}
+          anchor={transitionEditor}
+          onChange={transition => onSetTransition(transitionEditor.sceneId, transition)}
+          onGenerateBridge={() => { onGenerateBridge(transitionEditor.sceneId); closeTransitionEditor(); }}
+          onClose={closeTransitionEditor}
+        />
+      )}
     </div>
   );
 };
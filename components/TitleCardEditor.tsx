@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { GenerationCancelledError } from '../services/errors';
+import { renderTitleCard, RenderedFilm } from '../services/render';
+import { DEFAULT_TITLE_CARD, DEFAULT_TITLE_SECONDS, drawTitleCard, loadTitleFont, MAX_TITLE_SECONDS, MIN_TITLE_SECONDS, TITLE_FONTS } from '../services/titles';
+import { AspectRatio, Scene, TitleCard, TitleFont } from '../types';
+import { TextModeIcon, XMarkIcon } from './icons';
+
+interface TitleCardEditorProps {
+  scenes: Scene[];
+  // The title card scene being edited; a new card is inserted when unset.
+  scene?: Scene;
+  // Where a new card goes by default: after this scene, or at the very start when null.
+  defaultAfterSceneId: string | null;
+  aspectRatio: AspectRatio;
+  onSave: (card: TitleCard, film: RenderedFilm, seconds: number, afterSceneId: string | null) => void;
+  onClose: () => void;
+}
+
+const START = '__start__';
+
+/**
+ * Designs a title card and records it as a clip, so opening titles and chapter
+ * cards play, transition and export like any other scene.
+ */
+const TitleCardEditor: React.FC<TitleCardEditorProps> = ({ scenes, scene, defaultAfterSceneId, aspectRatio, onSave, onClose }) => {
+  const [card, setCard] = useState<TitleCard>(scene?.titleCard ?? DEFAULT_TITLE_CARD);
+  const [seconds, setSeconds] = useState(scene?.duration ? Math.round(scene.duration) : DEFAULT_TITLE_SECONDS);
+  const [placement, setPlacement] = useState(defaultAfterSceneId ?? START);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const portrait = aspectRatio === AspectRatio.PORTRAIT;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTitleFont(card.font).then(() => {
+      const ctx = previewRef.current?.getContext('2d');
+      if (ctx && !cancelled) drawTitleCard(ctx, card);
+    });
+    return () => { cancelled = true; };
+  }, [card]);
+
+  const update = (changes: Partial<TitleCard>) => setCard(c => ({ ...c, ...changes }));
+
+  const handleSave = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRendering(true);
+    setError(null);
+    try {
+      const film = await renderTitleCard(card, seconds, aspectRatio, controller.signal);
+      onSave(card, film, seconds, placement === START ? null : placement);
+    } catch (err) {
+      if (err instanceof GenerationCancelledError) return;
+      console.error('Title card rendering failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not render the title card');
+    } finally {
+      controllerRef.current = null;
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="glass-panel bg-[#2F3E32]/95 rounded-2xl w-full max-w-lg p-6 space-y-4 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-sm font-bold text-[#D4A373] uppercase tracking-widest">
+            <TextModeIcon className="w-4 h-4" /> {scene ? 'Edit Title Card' : 'New Title Card'}
+          </h2>
+          <button onClick={onClose} className="p-1 text-white/40 hover:text-white" title="Close">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <canvas
+          ref={previewRef}
+          width={portrait ? 360 : 640}
+          height={portrait ? 640 : 360}
+          className={`mx-auto rounded-lg border border-white/10 ${portrait ? 'h-64' : 'w-full'}`}
+        />
+
+        <div className="space-y-2">
+          <input
+            value={card.title}
+            onChange={e => update({ title: e.target.value })}
+            placeholder="Title"
+            className="w-full bg-black/30 border border-white/10 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-[#D4A373]"
+          />
+          <input
+            value={card.subtitle}
+            onChange={e => update({ subtitle: e.target.value })}
+            placeholder="Subtitle (optional)"
+            className="w-full bg-black/30 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-[#D4A373]"
+          />
+          <div className="flex gap-1">
+            {(Object.keys(TITLE_FONTS) as TitleFont[]).map(font => (
+              <button
+                key={font}
+                onClick={() => update({ font })}
+                style={{ fontFamily: TITLE_FONTS[font].family }}
+                className={`flex-1 py-1 rounded text-xs transition-colors ${
+                  card.font === font ? 'bg-[#D4A373] text-[#2F3E32] font-bold' : 'bg-black/20 text-white/60 hover:text-white'
+                }`}
+              >
+                {TITLE_FONTS[font].label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-4 text-[10px] text-white/50">
+            <label className="flex items-center gap-1.5">
+              <input type="color" value={card.textColor} onChange={e => update({ textColor: e.target.value })} className="w-6 h-6 bg-transparent cursor-pointer" />
+              Text
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input type="color" value={card.backgroundColor} onChange={e => update({ backgroundColor: e.target.value })} className="w-6 h-6 bg-transparent cursor-pointer" />
+              Background
+            </label>
+            <label className="flex-1 space-y-0.5">
+              <span className="flex justify-between">
+                Duration
+                <span className="font-mono text-white/70">{seconds}s</span>
+              </span>
+              <input
+                type="range"
+                min={MIN_TITLE_SECONDS}
+                max={MAX_TITLE_SECONDS}
+                step={1}
+                value={seconds}
+                onChange={e => setSeconds(Number(e.target.value))}
+                className="w-full accent-[#D4A373]"
+              />
+            </label>
+          </div>
+          {!scene && (
+            <label className="flex items-center gap-2 text-[10px] text-white/50">
+              Place
+              <select
+                value={placement}
+                onChange={e => setPlacement(e.target.value)}
+                className="flex-1 bg-black/30 border border-white/10 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-[#D4A373]"
+              >
+                <option value={START}>At the start</option>
+                {scenes.map((s, i) => <option key={s.id} value={s.id}>After scene {i + 1}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-red-300/80">{error}</p>}
+
+        <button
+          onClick={handleSave}
+          disabled={isRendering || !card.title.trim()}
+          className="w-full py-2 rounded bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] text-sm font-bold disabled:opacity-50"
+        >
+          {isRendering ? `Recording ${seconds}s card...` : scene ? 'Update Title Card' : 'Insert Title Card'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TitleCardEditor;
@@ -0,0 +1,383 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useRef, useState } from 'react';
+import { probeVideoDuration } from '../services/media';
+import { buildSequence, formatTimecode, getTrimRange } from '../services/sequence';
+import { OVERLAY_POSITIONS, overlayStyle, TITLE_FONTS } from '../services/titles';
+import { AUDIO_TRACK_LABELS, clampFades, createAudioClip, createAudioTrack, createOverlay } from '../services/tracks';
+import { AudioClip, AudioTrack, AudioTrackKind, OverlayClip, OverlayPosition, Scene, TitleFont } from '../types';
+import { FilmIcon, PlusIcon, SpeakerWaveIcon, SpeakerXMarkIcon, TextModeIcon, TrashIcon, UploadIcon } from './icons';
+import { SequencePosition } from './SequencePlayer';
+
+interface TrackLanesProps {
+  scenes: Scene[];
+  audioTracks: AudioTrack[];
+  overlays: OverlayClip[];
+  selectedSceneId: string | null;
+  onSelectScene: (id: string) => void;
+  sequencePosition: SequencePosition | null;
+  onChangeAudioTracks: (tracks: AudioTrack[], coalesceKey?: string) => void;
+  onChangeOverlays: (overlays: OverlayClip[], coalesceKey?: string) => void;
+  onSetSceneVolume: (sceneId: string, volume: number) => void;
+}
+
+type LaneSelection =
+  | { kind: 'audio'; trackId: string; clipId: string }
+  | { kind: 'overlay'; overlayId: string };
+
+const PX_PER_SECOND = 24;
+const HEADER_WIDTH = 'w-36';
+
+const Slider: React.FC<{ label: string; value: number; max: number; step: number; format: (v: number) => string; onChange: (v: number) => void }> = ({
+  label, value, max, step, format, onChange
+}) => (
+  <label className="block space-y-0.5 text-[10px] text-white/50">
+    <span className="flex justify-between">
+      {label}
+      <span className="font-mono text-white/70">{format(value)}</span>
+    </span>
+    <input type="range" min={0} max={max} step={step} value={value} onChange={e => onChange(Number(e.target.value))} className="w-full accent-[#D4A373]" />
+  </label>
+);
+
+const OptionButtons = <T extends string>({ options, value, onChange }: { options: Record<T, { label: string }>; value: T; onChange: (v: T) => void }) => (
+  <div className="grid grid-cols-2 gap-1">
+    {(Object.keys(options) as T[]).map(key => (
+      <button
+        key={key}
+        onClick={() => onChange(key)}
+        className={`py-0.5 rounded text-[10px] transition-colors ${value === key ? 'bg-[#D4A373] text-[#2F3E32] font-bold' : 'bg-black/20 text-white/60 hover:text-white'}`}
+      >
+        {options[key].label}
+      </button>
+    ))}
+  </div>
+);
+
+const percentLabel = (v: number) => `${Math.round(v * 100)}%`;
+const secondsLabel = (v: number) => `${v.toFixed(1)}s`;
+
+/**
+ * The timeline laid out against time: the video track with its scenes at their
+ * real lengths, audio tracks (music, voiceover, SFX) underneath and a text
+ * overlay track on top. Clips are dragged along their lane to move them.
+ */
+const TrackLanes: React.FC<TrackLanesProps> = ({
+  scenes,
+  audioTracks,
+  overlays,
+  selectedSceneId,
+  onSelectScene,
+  sequencePosition,
+  onChangeAudioTracks,
+  onChangeOverlays,
+  onSetSceneVolume
+}) => {
+  const sequence = useMemo(() => buildSequence(scenes), [scenes]);
+  const [selection, setSelection] = useState<LaneSelection | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTrackId = useRef<string | null>(null);
+  // The clip being dragged, where the pointer went down and where the clip started.
+  const drag = useRef<{ selection: LaneSelection; x: number; start: number } | null>(null);
+
+  const playingClip = sequencePosition ? sequence.clips.find(c => c.scene.id === sequencePosition.sceneId) : undefined;
+  const playhead = playingClip ? playingClip.start + sequencePosition!.progress * playingClip.duration : null;
+  const extent = Math.max(
+    sequence.duration,
+    ...audioTracks.flatMap(t => t.clips.map(c => c.start + c.duration)),
+    ...overlays.map(o => o.start + o.duration)
+  ) + 10;
+  const px = (seconds: number) => seconds * PX_PER_SECOND;
+
+  // New clips land at the playhead, or else after the selected scene starts.
+  const insertionTime = () => playhead ?? sequence.clips.find(c => c.scene.id === selectedSceneId)?.start ?? 0;
+
+  const updateTrack = (trackId: string, update: (track: AudioTrack) => AudioTrack, coalesceKey?: string) =>
+    onChangeAudioTracks(audioTracks.map(t => t.id === trackId ? update(t) : t), coalesceKey);
+
+  const updateAudioClip = (trackId: string, clipId: string, update: (clip: AudioClip) => AudioClip, coalesceKey?: string) =>
+    updateTrack(trackId, t => ({ ...t, clips: t.clips.map(c => c.id === clipId ? update(c) : c) }), coalesceKey);
+
+  const updateOverlay = (overlayId: string, update: (overlay: OverlayClip) => OverlayClip, coalesceKey?: string) =>
+    onChangeOverlays(overlays.map(o => o.id === overlayId ? update(o) : o), coalesceKey);
+
+  const addTrack = (kind: AudioTrackKind) => onChangeAudioTracks([...audioTracks, createAudioTrack(kind, audioTracks)]);
+
+  const addClip = (trackId: string, clip: AudioClip) => {
+    updateTrack(trackId, t => ({ ...t, clips: [...t.clips, clip] }));
+    setSelection({ kind: 'audio', trackId, clipId: clip.id });
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const trackId = uploadTrackId.current;
+    e.target.value = '';
+    if (!file || !trackId) return;
+    setImportError(null);
+    try {
+      const duration = await probeVideoDuration(file);
+      addClip(trackId, createAudioClip(file.name.replace(/\.[^.]+$/, ''), file, duration, insertionTime()));
+    } catch (err) {
+      console.error('Audio import failed:', err);
+      setImportError(`Could not read ${file.name} as audio.`);
+    }
+  };
+
+  // Lifts the selected scene's soundtrack onto an audio track, lined up under the scene.
+  const addSceneAudio = (trackId: string) => {
+    const clip = sequence.clips.find(c => c.scene.id === selectedSceneId);
+    if (!clip) return;
+    const audio = createAudioClip(`Scene ${clip.index + 1} audio`, clip.scene.videoBlob, clip.duration, clip.start);
+    addClip(trackId, { ...audio, offset: getTrimRange(clip.scene).start });
+  };
+
+  const startDrag = (e: React.PointerEvent, target: LaneSelection, start: number) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { selection: target, x: e.clientX, start };
+    setSelection(target);
+  };
+
+  const handleDragMove = (e: React.PointerEvent) => {
+    const current = drag.current;
+    if (!current) return;
+    const start = Math.max(0, current.start + (e.clientX - current.x) / PX_PER_SECOND);
+    const target = current.selection;
+    if (target.kind === 'audio') updateAudioClip(target.trackId, target.clipId, c => ({ ...c, start }), `move:${target.clipId}`);
+    else updateOverlay(target.overlayId, o => ({ ...o, start }), `move:${target.overlayId}`);
+  };
+
+  const endDrag = () => { drag.current = null; };
+
+  const selectedTrack = selection?.kind === 'audio' ? audioTracks.find(t => t.id === selection.trackId) : undefined;
+  const selectedAudio = selection?.kind === 'audio' ? selectedTrack?.clips.find(c => c.id === selection.clipId) : undefined;
+  const selectedOverlay = selection?.kind === 'overlay' ? overlays.find(o => o.id === selection.overlayId) : undefined;
+  const selectedScene = scenes.find(s => s.id === selectedSceneId);
+
+  const laneClip = (isSelected: boolean) =>
+    `absolute inset-y-1 rounded px-1.5 flex items-center text-[10px] truncate cursor-grab active:cursor-grabbing select-none touch-none border ${
+      isSelected ? 'border-[#D4A373] ring-1 ring-[#D4A373]' : 'border-white/10'
+    }`;
+
+  return (
+    <div className="flex-1 min-h-0 flex animate-fade-in">
+      <div className="flex-1 min-w-0 overflow-auto scrollbar-thin" onPointerDown={() => setSelection(null)}>
+        <div className="relative" style={{ width: `calc(9rem + ${px(extent)}px)` }}>
+          {playhead !== null && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-[#E07A5F] z-20 pointer-events-none transition-[left] duration-100 ease-linear"
+              style={{ left: `calc(9rem + ${px(playhead)}px)` }}
+            />
+          )}
+
+          {/* Text overlays */}
+          <div className="flex h-8 border-b border-white/5">
+            <div className={`${HEADER_WIDTH} shrink-0 sticky left-0 z-10 bg-[#1e2922] px-2 flex items-center justify-between text-[10px] text-white/60`}>
+              <span className="flex items-center gap-1"><TextModeIcon className="w-3 h-3" /> Text</span>
+              <button
+                onClick={() => {
+                  const overlay = createOverlay('Title', insertionTime());
+                  onChangeOverlays([...overlays, overlay]);
+                  setSelection({ kind: 'overlay', overlayId: overlay.id });
+                }}
+                className="p-0.5 hover:text-white"
+                title="Add a text overlay at the playhead"
+              >
+                <PlusIcon className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="relative flex-1" onPointerMove={handleDragMove} onPointerUp={endDrag}>
+              {overlays.map(overlay => {
+                const target: LaneSelection = { kind: 'overlay', overlayId: overlay.id };
+                return (
+                  <div
+                    key={overlay.id}
+                    onPointerDown={e => startDrag(e, target, overlay.start)}
+                    className={`${laneClip(selectedOverlay?.id === overlay.id)} bg-white/15 text-white`}
+                    style={{ left: px(overlay.start), width: px(overlay.duration) }}
+                    title={overlay.text}
+                  >
+                    {overlay.text}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Video */}
+          <div className="flex h-10 border-b border-white/5">
+            <div className={`${HEADER_WIDTH} shrink-0 sticky left-0 z-10 bg-[#1e2922] px-2 flex items-center gap-1 text-[10px] text-white/60`}>
+              <FilmIcon className="w-3 h-3" /> Video
+            </div>
+            <div className="relative flex-1">
+              {sequence.clips.map(clip => (
+                <button
+                  key={clip.scene.id}
+                  onPointerDown={e => e.stopPropagation()}
+                  onClick={() => onSelectScene(clip.scene.id)}
+                  className={`absolute inset-y-1 rounded overflow-hidden border text-left ${
+                    clip.scene.id === selectedSceneId ? 'border-[#D4A373]' : 'border-white/10 hover:border-white/30'
+                  }`}
+                  style={{ left: px(clip.start), width: px(clip.duration) }}
+                  title={clip.scene.prompt}
+                >
+                  <video src={`${clip.scene.videoUrl}#t=${clip.sourceStart}`} className="absolute inset-0 w-full h-full object-cover opacity-50 pointer-events-none" />
+                  <span className="relative px-1.5 text-[10px] font-mono text-[#D4A373]">
+                    {clip.index + 1}
+                    {(clip.scene.volume ?? 1) === 0 && <SpeakerXMarkIcon className="inline w-3 h-3 ml-1 text-white/60" />}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Audio */}
+          {audioTracks.map(track => (
+            <div key={track.id} className="flex h-9 border-b border-white/5">
+              <div className={`${HEADER_WIDTH} shrink-0 sticky left-0 z-10 bg-[#1e2922] px-2 flex items-center gap-1 text-[10px] text-white/60`}>
+                <span className="flex-1 min-w-0 truncate" title={track.name}>{track.name}</span>
+                <button
+                  onClick={() => updateTrack(track.id, t => ({ ...t, muted: !t.muted }))}
+                  className={`p-0.5 ${track.muted ? 'text-[#E35336]' : 'hover:text-white'}`}
+                  title={track.muted ? 'Unmute track' : 'Mute track'}
+                >
+                  {track.muted ? <SpeakerXMarkIcon className="w-3 h-3" /> : <SpeakerWaveIcon className="w-3 h-3" />}
+                </button>
+                <button
+                  onClick={() => { uploadTrackId.current = track.id; fileInputRef.current?.click(); }}
+                  className="p-0.5 hover:text-white"
+                  title="Import an audio file at the playhead"
+                >
+                  <UploadIcon className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => addSceneAudio(track.id)}
+                  disabled={!selectedScene}
+                  className="p-0.5 hover:text-white disabled:opacity-30"
+                  title="Use the selected scene's audio"
+                >
+                  <FilmIcon className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onChangeAudioTracks(audioTracks.filter(t => t.id !== track.id))}
+                  className="p-0.5 hover:text-red-400"
+                  title="Delete track"
+                >
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              </div>
+              <div className={`relative flex-1 ${track.muted ? 'opacity-40' : ''}`} onPointerMove={handleDragMove} onPointerUp={endDrag}>
+                {track.clips.map(clip => {
+                  const target: LaneSelection = { kind: 'audio', trackId: track.id, clipId: clip.id };
+                  return (
+                    <div
+                      key={clip.id}
+                      onPointerDown={e => startDrag(e, target, clip.start)}
+                      className={`${laneClip(selectedAudio?.id === clip.id)} ${track.kind === 'music' ? 'bg-[#D4A373]/30' : track.kind === 'voiceover' ? 'bg-[#E07A5F]/30' : 'bg-white/10'} text-white/80`}
+                      style={{ left: px(clip.start), width: px(clip.duration) }}
+                      title={`${clip.name} (${formatTimecode(clip.duration)})`}
+                    >
+                      {clip.name}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex h-8">
+            <div className={`${HEADER_WIDTH} shrink-0 sticky left-0 z-10 bg-[#1e2922] px-2 flex items-center gap-2 text-[10px]`}>
+              {(Object.keys(AUDIO_TRACK_LABELS) as AudioTrackKind[]).map(kind => (
+                <button key={kind} onClick={() => addTrack(kind)} className="flex items-center text-[#E07A5F] hover:text-white" title={`Add a ${AUDIO_TRACK_LABELS[kind].toLowerCase()} track`}>
+                  <PlusIcon className="w-3 h-3" />{AUDIO_TRACK_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+            {importError && <p className="px-3 self-center text-[10px] text-red-300/80">{importError}</p>}
+          </div>
+        </div>
+        <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleUpload} />
+      </div>
+
+      {/* Inspector */}
+      <div className="w-56 shrink-0 border-l border-white/10 p-3 space-y-2 overflow-y-auto scrollbar-thin">
+        {selectedAudio && selectedTrack ? (
+          <>
+            <p className="text-[10px] font-bold text-[#D4A373] uppercase tracking-widest truncate" title={selectedAudio.name}>{selectedAudio.name}</p>
+            <p className="text-[10px] font-mono text-white/40">{formatTimecode(selectedAudio.start)} &middot; {formatTimecode(selectedAudio.duration)}</p>
+            <Slider label="Volume" value={selectedAudio.volume} max={1} step={0.05} format={percentLabel}
+              onChange={volume => updateAudioClip(selectedTrack.id, selectedAudio.id, c => ({ ...c, volume }), `volume:${selectedAudio.id}`)} />
+            <Slider label="Fade In" value={selectedAudio.fadeIn} max={Math.min(10, selectedAudio.duration)} step={0.1} format={secondsLabel}
+              onChange={fadeIn => updateAudioClip(selectedTrack.id, selectedAudio.id, c => clampFades({ ...c, fadeIn }), `fade:${selectedAudio.id}`)} />
+            <Slider label="Fade Out" value={selectedAudio.fadeOut} max={Math.min(10, selectedAudio.duration)} step={0.1} format={secondsLabel}
+              onChange={fadeOut => updateAudioClip(selectedTrack.id, selectedAudio.id, c => clampFades({ ...c, fadeOut }), `fade:${selectedAudio.id}`)} />
+            <button
+              onClick={() => {
+                updateTrack(selectedTrack.id, t => ({ ...t, clips: t.clips.filter(c => c.id !== selectedAudio.id) }));
+                setSelection(null);
+              }}
+              className="flex items-center gap-1 text-[10px] text-white/40 hover:text-red-400"
+            >
+              <TrashIcon className="w-3 h-3" /> Remove Clip
+            </button>
+          </>
+        ) : selectedOverlay ? (
+          <>
+            <p className="text-[10px] font-bold text-[#D4A373] uppercase tracking-widest">Text Overlay</p>
+            <textarea
+              value={selectedOverlay.text}
+              onChange={e => updateOverlay(selectedOverlay.id, o => ({ ...o, text: e.target.value }), `text:${selectedOverlay.id}`)}
+              rows={2}
+              className="w-full bg-black/30 border border-white/10 rounded px-2 py-1 text-xs text-white resize-none focus:outline-none focus:border-[#D4A373]"
+            />
+            <Slider label="Duration" value={selectedOverlay.duration} max={15} step={0.5} format={secondsLabel}
+              onChange={duration => updateOverlay(selectedOverlay.id, o => ({ ...o, duration: Math.max(0.5, duration) }), `duration:${selectedOverlay.id}`)} />
+            <OptionButtons<OverlayPosition>
+              options={OVERLAY_POSITIONS}
+              value={overlayStyle(selectedOverlay).position}
+              onChange={position => updateOverlay(selectedOverlay.id, o => ({ ...o, position }))}
+            />
+            <div className="flex items-center gap-2">
+              <div className="flex-1">
+                <OptionButtons<TitleFont>
+                  options={TITLE_FONTS}
+                  value={overlayStyle(selectedOverlay).font}
+                  onChange={font => updateOverlay(selectedOverlay.id, o => ({ ...o, font }))}
+                />
+              </div>
+              <input
+                type="color"
+                value={overlayStyle(selectedOverlay).color}
+                onChange={e => updateOverlay(selectedOverlay.id, o => ({ ...o, color: e.target.value }), `color:${selectedOverlay.id}`)}
+                className="w-7 h-7 shrink-0 bg-transparent cursor-pointer"
+                title="Text colour"
+              />
+            </div>
+            <button
+              onClick={() => {
+                onChangeOverlays(overlays.filter(o => o.id !== selectedOverlay.id));
+                setSelection(null);
+              }}
+              className="flex items-center gap-1 text-[10px] text-white/40 hover:text-red-400"
+            >
+              <TrashIcon className="w-3 h-3" /> Remove Overlay
+            </button>
+          </>
+        ) : selectedScene ? (
+          <>
+            <p className="text-[10px] font-bold text-[#D4A373] uppercase tracking-widest">Scene {scenes.indexOf(selectedScene) + 1} Audio</p>
+            <Slider label="Volume" value={selectedScene.volume ?? 1} max={1} step={0.05} format={percentLabel}
+              onChange={volume => onSetSceneVolume(selectedScene.id, volume)} />
+          </>
+        ) : (
+          <p className="text-[10px] text-white/30">Select a clip to adjust it.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackLanes;
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { DEFAULT_TRANSITION_SECONDS, MAX_TRANSITION_SECONDS } from '../services/sequence';
+import { SceneTransition, TransitionType } from '../types';
+import { SparklesIcon } from './icons';
+
+export const TRANSITION_OPTIONS: { type: TransitionType; label: string; short: string }[] = [
+  { type: 'cut', label: 'Cut', short: 'Cut' },
+  { type: 'crossfade', label: 'Crossfade', short: 'Fade' },
+  { type: 'dip_black', label: 'Dip to Black', short: 'Black' },
+  { type: 'dip_white', label: 'Dip to White', short: 'White' },
+  { type: 'wipe', label: 'Wipe', short: 'Wipe' },
+];
+
+const MIN_TRANSITION_SECONDS = 0.25;
+
+interface TransitionPickerProps {
+  transition?: SceneTransition;
+  // Viewport point the picker hangs above (the centre of the bubble that opened it).
+  anchor: { x: number; y: number };
+  onChange: (transition: SceneTransition | undefined) => void;
+  onGenerateBridge: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Chooses how one scene hands over to the next. A cut is stored as no transition
+ * at all; the duration is the length of the whole effect.
+ */
+const TransitionPicker: React.FC<TransitionPickerProps> = ({ transition, anchor, onChange, onGenerateBridge, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const type = transition?.type ?? 'cut';
+  const duration = transition?.duration ?? DEFAULT_TRANSITION_SECONDS;
+
+  // Click outside listener
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) onClose();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const select = (next: TransitionType) => onChange(next === 'cut' ? undefined : { type: next, duration });
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed w-56 -translate-x-1/2 -translate-y-full -mt-4 glass-panel bg-[#2F3E32]/95 rounded-xl p-3 space-y-3 z-50 animate-fade-in"
+      style={{ left: anchor.x, top: anchor.y }}
+    >
+      <p className="text-[10px] font-bold text-[#D4A373] uppercase tracking-widest">Transition</p>
+      <div className="grid grid-cols-2 gap-1">
+        {TRANSITION_OPTIONS.map(option => (
+          <button
+            key={option.type}
+            onClick={() => select(option.type)}
+            className={`px-2 py-1.5 rounded text-xs text-left transition-colors ${
+              type === option.type ? 'bg-[#D4A373] text-[#2F3E32] font-bold' : 'bg-black/20 text-white/70 hover:bg-white/10'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {type !== 'cut' && (
+        <label className="block space-y-1 text-[10px] text-white/50">
+          <span className="flex justify-between">
+            Duration
+            <span className="font-mono text-white/70">{duration.toFixed(2)}s</span>
+          </span>
+          <input
+            type="range"
+            min={MIN_TRANSITION_SECONDS}
+            max={MAX_TRANSITION_SECONDS}
+            step={0.25}
+            value={duration}
+            onChange={e => onChange({ type, duration: Number(e.target.value) })}
+            className="w-full accent-[#D4A373]"
+          />
+        </label>
+      )}
+      <button
+        onClick={onGenerateBridge}
+        className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded border border-[#E07A5F]/50 text-[#E07A5F] hover:bg-[#E07A5F]/10 text-xs font-medium"
+        title="Generate a connecting shot from this scene's last frame to the next scene's first frame"
+      >
+        <SparklesIcon className="w-3 h-3" /> Generate Bridge Clip
+      </button>
+    </div>
+  );
+};
+
+export default TransitionPicker;
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { formatTimecode, getTrimRange, normalizeTrim, parseTimecode } from '../services/sequence';
+import { Scene } from '../types';
+import { ScissorsIcon } from './icons';
+
+interface TrimEditorProps {
+  scene: Scene;
+  onChangeTrim: (trim: Pick<Scene, 'trimIn' | 'trimOut'>) => void;
+}
+
+type Handle = 'in' | 'out';
+
+const TimecodeInput: React.FC<{ label: string; value: number; onCommit: (seconds: number) => void }> = ({ label, value, onCommit }) => {
+  const [text, setText] = useState(formatTimecode(value));
+  useEffect(() => setText(formatTimecode(value)), [value]);
+
+  const commit = () => {
+    const seconds = parseTimecode(text);
+    if (seconds === null) setText(formatTimecode(value));
+    else onCommit(seconds);
+  };
+
+  return (
+    <label className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-white/40">
+      {label}
+      <input
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+        className="w-16 bg-black/30 border border-white/10 rounded px-1.5 py-0.5 font-mono text-xs text-white normal-case focus:outline-none focus:border-[#D4A373]"
+      />
+    </label>
+  );
+};
+
+/** In/out point editor for a scene: drag the handles or type a timecode. */
+const TrimEditor: React.FC<TrimEditorProps> = ({ scene, onChangeTrim }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<Handle | null>(null);
+  const duration = scene.duration;
+  if (!duration) return null;
+
+  const { start, end } = getTrimRange(scene);
+  const setPoint = (handle: Handle, seconds: number) => {
+    onChangeTrim(handle === 'in' ? normalizeTrim(duration, seconds, end) : normalizeTrim(duration, start, seconds));
+  };
+
+  const secondsAt = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (handle: Handle) => (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging) setPoint(dragging, secondsAt(e.clientX));
+  };
+
+  const percent = (seconds: number) => `${(seconds / duration) * 100}%`;
+
+  return (
+    <div className="w-full max-w-2xl glass-panel rounded-lg px-3 py-2 flex items-center gap-3">
+      <ScissorsIcon className="w-4 h-4 text-[#D4A373] shrink-0" />
+      <TimecodeInput label="In" value={start} onCommit={seconds => setPoint('in', seconds)} />
+      <div
+        ref={barRef}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        className="relative flex-1 h-6 bg-black/40 rounded select-none touch-none"
+      >
+        <div className="absolute inset-y-0 bg-[#D4A373]/30 border-y border-[#D4A373]/60" style={{ left: percent(start), right: `calc(100% - ${percent(end)})` }} />
+        {(['in', 'out'] as const).map(handle => (
+          <div
+            key={handle}
+            onPointerDown={handlePointerDown(handle)}
+            className={`absolute inset-y-0 w-2 -ml-1 rounded-sm cursor-ew-resize ${dragging === handle ? 'bg-white' : 'bg-[#D4A373] hover:bg-white'}`}
+            style={{ left: percent(handle === 'in' ? start : end) }}
+            title={handle === 'in' ? 'In point' : 'Out point'}
+          />
+        ))}
+      </div>
+      <TimecodeInput label="Out" value={end} onCommit={seconds => setPoint('out', seconds)} />
+      <span className="font-mono text-[10px] text-white/40 w-12 text-right">{formatTimecode(end - start)}</span>
+      <button
+        onClick={() => onChangeTrim({ trimIn: undefined, trimOut: undefined })}
+        disabled={scene.trimIn === undefined && scene.trimOut === undefined}
+        className="text-[10px] text-white/40 hover:text-white disabled:opacity-30 disabled:hover:text-white/40"
+      >
+        Reset
+      </button>
+    </div>
+  );
+};
+
+export default TrimEditor;
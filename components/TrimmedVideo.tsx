@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { getTrimRange } from '../services/sequence';
+import { Scene } from '../types';
+
+interface TrimmedVideoProps extends Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src'> {
+  scene: Scene;
+}
+
+// Stop this close to the out point; timeupdate only fires every ~250ms.
+const OUT_POINT_EPSILON = 0.05;
+
+/** A <video> that only plays the scene's in/out range of its untouched source clip. */
+const TrimmedVideo = forwardRef<HTMLVideoElement | null, TrimmedVideoProps>(({ scene, ...videoProps }, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useImperativeHandle(ref, () => videoRef.current, []);
+  const previousTrim = useRef({ trimIn: scene.trimIn, trimOut: scene.trimOut });
+
+  const range = () => {
+    const loaded = videoRef.current?.duration;
+    return getTrimRange(scene, scene.duration ?? (loaded && Number.isFinite(loaded) ? loaded : undefined));
+  };
+
+  // While a trim is being edited, show the frame at whichever point moved.
+  useEffect(() => {
+    const video = videoRef.current;
+    const previous = previousTrim.current;
+    previousTrim.current = { trimIn: scene.trimIn, trimOut: scene.trimOut };
+    if (!video || video.readyState < HTMLMediaElement.HAVE_METADATA) return;
+    const { start, end } = range();
+    if (scene.trimOut !== previous.trimOut) {
+      video.pause();
+      video.currentTime = Math.max(start, end - OUT_POINT_EPSILON);
+    } else if (scene.trimIn !== previous.trimIn) {
+      video.pause();
+      video.currentTime = start;
+    }
+  }, [scene.trimIn, scene.trimOut]);
+
+  const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    e.currentTarget.currentTime = range().start;
+    videoProps.onLoadedMetadata?.(e);
+  };
+
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    const { start, end } = range();
+    if (video.currentTime < start - OUT_POINT_EPSILON) {
+      video.currentTime = start;
+    } else if (video.currentTime >= end - OUT_POINT_EPSILON && !video.paused) {
+      video.pause();
+      video.currentTime = end;
+    }
+    videoProps.onTimeUpdate?.(e);
+  };
+
+  // Pressing play at the out point starts over from the in point.
+  const handlePlay = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const { start, end } = range();
+    if (e.currentTarget.currentTime >= end - OUT_POINT_EPSILON) e.currentTarget.currentTime = start;
+    videoProps.onPlay?.(e);
+  };
+
+  return (
+    <video
+      {...videoProps}
+      ref={videoRef}
+      src={scene.videoUrl}
+      onLoadedMetadata={handleLoadedMetadata}
+      onTimeUpdate={handleTimeUpdate}
+      onPlay={handlePlay}
+    />
+  );
+});
+
+export default TrimmedVideo;
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { MAX_REFERENCE_IMAGES } from '../services/geminiService';
+import { pickReferenceViews, TURNAROUND_VIEWS } from '../services/turnaround';
+import { Asset } from '../types';
+import { ReferencesModeIcon, TurnaroundIcon, XMarkIcon } from './icons';
+
+interface TurnaroundStripProps {
+  views: Asset[];
+  selectedAssetIds: string[];
+  onSelectAsset: (asset: Asset) => void;
+  onRemoveAsset: (id: string) => void;
+  onUseAsReferences: () => void;
+  onRegenerate: () => void;
+}
+
+/**
+ * A character's turnaround views, one slot per angle. Views are picked for
+ * References to Video like any other asset; "Use as References" picks for you
+ * and says which views it leaves out.
+ */
+const TurnaroundStrip: React.FC<TurnaroundStripProps> = ({ views, selectedAssetIds, onSelectAsset, onRemoveAsset, onUseAsReferences, onRegenerate }) => {
+  const referenceViews = pickReferenceViews(views);
+  const leftOut = TURNAROUND_VIEWS.filter(({ view }) => views.some(a => a.view === view && !referenceViews.includes(a)));
+  return (
+    <div className="col-span-2 bg-black/20 border border-white/10 rounded-xl p-2 space-y-2 animate-fade-in">
+      <div className="grid grid-cols-4 gap-1.5">
+        {TURNAROUND_VIEWS.map(({ view, label }) => {
+          const asset = views.find(a => a.view === view);
+          const isSelected = !!asset && selectedAssetIds.includes(asset.id);
+          return (
+            <div key={view} className="space-y-0.5">
+              {asset ? (
+                <div
+                  onClick={() => onSelectAsset(asset)}
+                  className={`relative aspect-square group rounded overflow-hidden cursor-pointer border-2 transition-all ${
+                    isSelected ? 'border-[#E07A5F]' : 'border-white/5 hover:border-white/30'
+                  }`}
+                >
+                  <img src={asset.imageUrl} className="w-full h-full object-cover" />
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRemoveAsset(asset.id); }}
+                    className="absolute top-0.5 right-0.5 p-0.5 bg-red-500/80 rounded-full text-white opacity-0 group-hover:opacity-100"
+                    title={`Delete ${label.toLowerCase()} view`}
+                  >
+                    <XMarkIcon className="w-2 h-2" />
+                  </button>
+                </div>
+              ) : (
+                <div className="aspect-square rounded border border-dashed border-white/10" />
+              )}
+              <p className="text-[8px] text-center uppercase text-white/40 truncate">{label}</p>
+            </div>
+          );
+        })}
+      </div>
+      {leftOut.length > 0 && (
+        <p className="text-[9px] text-white/40 leading-snug">
+          Veo takes {MAX_REFERENCE_IMAGES} references, so Use as References leaves out the {leftOut.map(v => v.label.toLowerCase()).join(' and ')} view. Click views to pick them yourself.
+        </p>
+      )}
+      <div className="flex gap-1.5">
+        <button
+          onClick={onUseAsReferences}
+          disabled={views.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 py-1 rounded bg-[#D4A373] hover:bg-[#b0855a] text-[#2F3E32] text-[10px] font-bold disabled:opacity-40"
+          title={`Select the ${referenceViews.map(a => TURNAROUND_VIEWS.find(v => v.view === a.view)?.label).join(', ')} views as References to Video`}
+        >
+          <ReferencesModeIcon className="w-3 h-3" /> Use as References
+        </button>
+        <button
+          onClick={onRegenerate}
+          className="flex items-center justify-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-white text-[10px]"
+          title="Draw every view again"
+        >
+          <TurnaroundIcon className="w-3 h-3" /> Redo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TurnaroundStrip;
@@ -7,10 +7,16 @@ import {
   ArrowDown,
   ArrowRight,
   Baseline,
+  Bookmark,
   Bot,
+  Camera,
+  Check,
   ChevronDown,
   ChevronUp,
+  Copy,
+  Download,
   Film,
+  Globe,
   Image,
   KeyRound,
   Layers,
@@ -19,17 +25,29 @@ import {
   Mic,
   Minimize2,
   Music,
+  Pause,
   PenTool,
+  Pencil,
   Play,
   Plus,
   Presentation,
+  Redo2,
   RefreshCw,
+  Repeat,
+  Rotate3d,
+  Rows3,
   Scissors,
+  Search,
   Send,
   SlidersHorizontal,
   Sparkles,
+  Tag,
   Trash2,
   Tv,
+  Undo2,
+  Upload,
+  Volume2,
+  VolumeX,
   X,
 } from 'lucide-react';
 
@@ -145,6 +163,78 @@ export const SendIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   <Send {...defaultProps} {...props} />
 );
 
+export const DownloadIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Download {...defaultProps} {...props} />
+);
+
+export const UploadIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Upload {...defaultProps} {...props} />
+);
+
+export const CopyIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Copy {...defaultProps} {...props} />
+);
+
+export const PencilIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Pencil {...defaultProps} {...props} />
+);
+
+export const GlobeIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Globe {...defaultProps} {...props} />
+);
+
+export const UndoIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Undo2 {...defaultProps} {...props} />
+);
+
+export const RedoIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Redo2 {...defaultProps} {...props} />
+);
+
+export const RepeatIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Repeat {...defaultProps} {...props} />
+);
+
+export const PauseIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Pause {...defaultProps} {...props} />
+);
+
+export const CameraIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Camera {...defaultProps} {...props} />
+);
+
+export const CheckIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Check {...defaultProps} {...props} />
+);
+
+export const SpeakerWaveIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Volume2 {...defaultProps} {...props} />
+);
+
+export const SpeakerXMarkIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <VolumeX {...defaultProps} {...props} />
+);
+
+export const RowsIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Rows3 {...defaultProps} {...props} />
+);
+
+export const MagnifyingGlassIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Search {...defaultProps} {...props} />
+);
+
+export const TagIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Tag {...defaultProps} {...props} />
+);
+
+export const BookmarkIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Bookmark {...defaultProps} {...props} />
+);
+
+export const TurnaroundIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <Rotate3d {...defaultProps} {...props} />
+);
+
 // This icon had a different stroke width in the original file, so we preserve it.
 export const CurvedArrowDownIcon: React.FC<React.SVGProps<SVGSVGElement>> = (
   props,
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useCallback, useState} from 'react';
+
+// Consecutive updates with the same coalesce key inside this window (e.g. typing
+// into story memory) collapse into a single undo step.
+const COALESCE_WINDOW_MS = 1000;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+}
+
+export interface History<T> {
+  present: T;
+  set: (update: T | ((prev: T) => T), coalesceKey?: string) => void;
+  reset: (value: T) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Undoable state. Snapshots are the immutable values themselves, so entries share
+ * structure (and blobs) with each other; only `limit` past states are retained.
+ */
+export const useHistory = <T,>(initial: T | (() => T), limit = 50): History<T> => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+  }));
+
+  const set = useCallback((update: T | ((prev: T) => T), coalesceKey?: string) => {
+    setHistory(h => {
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(h.present) : update;
+      if (Object.is(next, h.present)) return h;
+      const now = Date.now();
+      const coalesce = !!coalesceKey && h.lastKey === coalesceKey && now - h.lastAt < COALESCE_WINDOW_MS;
+      return {
+        past: coalesce ? h.past : [...h.past, h.present].slice(-limit),
+        present: next,
+        future: [],
+        lastKey: coalesceKey ?? null,
+        lastAt: now,
+      };
+    });
+  }, [limit]);
+
+  const reset = useCallback((value: T) => {
+    setHistory({past: [], present: value, future: [], lastKey: null, lastAt: 0});
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        lastKey: null,
+        lastAt: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present].slice(-limit),
+        present: h.future[0],
+        future: h.future.slice(1),
+        lastKey: null,
+        lastAt: 0,
+      };
+    });
+  }, [limit]);
+
+  return {
+    present: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {GenerationCancelledError, GenerationError, GenerationTimeoutError} from '../services/errors';
+import {GenerationJob} from '../types';
+
+export const DEFAULT_JOB_CONCURRENCY = 3;
+export const MAX_JOB_CONCURRENCY = 5;
+
+const generateId = () => globalThis.crypto?.randomUUID() ?? (Date.now().toString(36) + Math.random().toString(36).slice(2));
+
+// `id` and `startedAt` may be preset for work that began in an earlier session.
+export type JobSpec = Pick<GenerationJob, 'kind' | 'label' | 'bucketId' | 'expectedDurationMs' | 'startedAt' | 'afterSceneId' | 'reshootSceneId'> & { id?: string };
+
+interface JobTask {
+  run: (signal: AbortSignal, jobId: string) => Promise<unknown>;
+  onSuccess: (result: unknown) => void;
+}
+
+export const isJobActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+/** Estimated progress (0-1) of a job; running jobs never report more than 95%. */
+export const estimateJobProgress = (job: GenerationJob, now: number): number => {
+  if (job.status === 'succeeded') return 1;
+  if (job.status !== 'running' || !job.startedAt) return 0;
+  return Math.min(0.95, (now - job.startedAt) / job.expectedDurationMs);
+};
+
+/**
+ * Runs generation tasks with at most `concurrency` in flight. Results are only
+ * delivered to `onSuccess` if the job was not cancelled in the meantime.
+ */
+export const useJobQueue = (concurrency: number) => {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const tasks = useRef(new Map<string, JobTask>());
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const patchJob = useCallback((id: string, patch: Partial<GenerationJob>) => {
+    setJobs(prev => prev.map(j => j.id === id ? {...j, ...patch} : j));
+  }, []);
+
+  const enqueue = useCallback(<T,>(
+    spec: JobSpec,
+    run: (signal: AbortSignal, jobId: string) => Promise<T>,
+    onSuccess: (result: T) => void
+  ): string => {
+    const id = spec.id ?? generateId();
+    // The task map holds jobs of every result type; `run` and `onSuccess` always come as a pair.
+    tasks.current.set(id, {run, onSuccess: result => onSuccess(result as T)});
+    setJobs(prev => [...prev, {...spec, id, status: 'queued', createdAt: Date.now()}]);
+    return id;
+  }, []);
+
+  const start = useCallback(async (job: GenerationJob) => {
+    const task = tasks.current.get(job.id);
+    if (!task) return;
+    tasks.current.delete(job.id);
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    patchJob(job.id, {status: 'running', startedAt: job.startedAt ?? Date.now()});
+
+    try {
+      const result = await task.run(controller.signal, job.id);
+      if (controller.signal.aborted) return;
+      task.onSuccess(result);
+      patchJob(job.id, {status: 'succeeded', finishedAt: Date.now()});
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // Timeouts and cancellations are expected outcomes, not failures.
+      if (error instanceof GenerationTimeoutError) {
+        patchJob(job.id, {status: 'timed_out', finishedAt: Date.now(), error: error.message});
+        return;
+      }
+      if (error instanceof GenerationCancelledError) {
+        patchJob(job.id, {status: 'cancelled', finishedAt: Date.now()});
+        return;
+      }
+      console.error(`Job ${job.id} failed:`, error);
+      patchJob(job.id, {
+        status: 'failed',
+        finishedAt: Date.now(),
+        error: error instanceof Error ? error.message : 'Generation failed',
+        errorKind: error instanceof GenerationError ? error.kind : 'unknown',
+      });
+    } finally {
+      controllers.current.delete(job.id);
+    }
+  }, [patchJob]);
+
+  // Scheduler: fill free slots with queued jobs in submission order.
+  useEffect(() => {
+    const running = jobs.filter(j => j.status === 'running').length;
+    const queued = jobs.filter(j => j.status === 'queued' && tasks.current.has(j.id));
+    queued.slice(0, Math.max(0, concurrency - running)).forEach(start);
+  }, [jobs, concurrency, start]);
+
+  const cancel = useCallback((id: string) => {
+    tasks.current.delete(id);
+    controllers.current.get(id)?.abort();
+    setJobs(prev => prev.map(j => j.id === id && isJobActive(j) ? {...j, status: 'cancelled', finishedAt: Date.now()} : j));
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    setJobs(prev => prev.filter(j => j.id !== id || isJobActive(j)));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(isJobActive));
+  }, []);
+
+  return {jobs, enqueue, cancel, dismiss, clearFinished};
+};
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useState} from 'react';
+
+/** Current time, re-rendering every `intervalMs` while `active` is true. */
+export const useNow = (active: boolean, intervalMs = 1000): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!active) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(intervalId);
+  }, [active, intervalMs]);
+
+  return now;
+};
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Asset, AssetType} from '../types';
+import {downscaleImage} from './media';
+
+// Naming, grouping and importing of bin assets, shared by the bin, continuity locks and prompts.
+
+export const ASSET_TYPE_OPTIONS: {type: AssetType; label: string; plural: string}[] = [
+  {type: 'character', label: 'Character', plural: 'Characters'},
+  {type: 'environment', label: 'Environment', plural: 'Environments'},
+  {type: 'object', label: 'Object', plural: 'Objects'},
+];
+
+const PROMPT_LABELS: Record<AssetType, string> = {
+  character: 'Character',
+  environment: 'Location',
+  object: 'Prop',
+};
+
+const LABEL_LENGTH = 24;
+
+/** What to call an asset: its name, or the start of its description for unnamed ones. */
+export const assetLabel = (asset: Asset): string => {
+  const name = asset.name?.trim();
+  if (name) return name;
+  return asset.prompt.length > LABEL_LENGTH ? `${asset.prompt.slice(0, LABEL_LENGTH).trimEnd()}...` : asset.prompt;
+};
+
+/**
+ * The sentence a prompt gets for locked continuity assets, e.g. "Character:
+ * Detective John. Location: Harbour warehouse." Unnamed assets fall back to
+ * their full description.
+ */
+export const continuityPromptText = (assets: Asset[]): string =>
+  assets.map(a => `${PROMPT_LABELS[a.type]}: ${a.name?.trim() || a.prompt}`).join('. ');
+
+/** Guesses an asset's type from how it was asked for, for requests that don't say. */
+export const inferAssetType = (text: string): AssetType => {
+  const lower = text.toLowerCase();
+  if (/\b(location|environment|place|setting|landscape|room|street|city|forest|interior|exterior)\b/.test(lower)) return 'environment';
+  if (/\b(object|prop|item|weapon|vehicle|car|tool)\b/.test(lower)) return 'object';
+  return 'character';
+};
+
+export const isAssetType = (value: unknown): value is AssetType =>
+  ASSET_TYPE_OPTIONS.some(option => option.type === value);
+
+// Imported images are kept at a size that works as a generation reference
+// without bloating the project store.
+export const IMPORTABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+export const MAX_ASSET_EDGE = 1024;
+
+export interface ImportedImage {
+  name: string;
+  blob: Blob;
+}
+
+/** Checks, downscales and names an image file the user dropped into the bin. */
+export const prepareImageImport = async (file: File): Promise<ImportedImage> => {
+  if (!IMPORTABLE_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`${file.name}: only PNG, JPEG and WebP images can be imported`);
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new Error(`${file.name}: larger than ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`);
+  }
+  try {
+    const blob = await downscaleImage(file, MAX_ASSET_EDGE);
+    return {name: file.name.replace(/\.[^.]+$/, ''), blob};
+  } catch (error) {
+    throw new Error(`${file.name}: ${error instanceof Error ? error.message : 'could not be imported'}`);
+  }
+};
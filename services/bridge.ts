@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AspectRatio, GenerateVideoParams, GenerationMode, Resolution, Scene, VeoModel} from '../types';
+import {throwIfAborted} from './errors';
+import {generateTransitionPrompts} from './geminiService';
+import {captureFrame, probeVideoDuration} from './media';
+import {getTrimRange} from './sequence';
+
+// A bridge clip is a Frames to Video generation that starts on the last frame
+// of one scene and ends on the first frame of the next, so the two cut together
+// through a shot that actually connects them.
+
+// Step back from the out point so we grab a decoded frame rather than the end of the stream.
+const LAST_FRAME_OFFSET = 1 / 30;
+
+/**
+ * Works out everything needed to generate a bridge between two adjacent scenes:
+ * the frames on either side of the cut (honouring trims) and a prompt written
+ * from both scenes' prompts.
+ */
+export const prepareBridgeParams = async (from: Scene, to: Scene, signal?: AbortSignal): Promise<GenerateVideoParams> => {
+  const fromDuration = from.duration ?? await probeVideoDuration(from.videoBlob);
+  const toDuration = to.duration ?? await probeVideoDuration(to.videoBlob);
+  throwIfAborted(signal);
+
+  const [startFrame, endFrame, ideas] = await Promise.all([
+    captureFrame(from.videoBlob, getTrimRange(from, fromDuration).end - LAST_FRAME_OFFSET, 'bridge_start.png'),
+    captureFrame(to.videoBlob, getTrimRange(to, toDuration).start, 'bridge_end.png'),
+    generateTransitionPrompts(from.prompt, to.prompt),
+  ]);
+  throwIfAborted(signal);
+
+  // The generic fallback ideas don't know either scene, so describe the move ourselves.
+  const prompt = ideas.isFallback || ideas.value.length === 0
+    ? `A seamless continuous shot moving from "${from.prompt}" to "${to.prompt}".`
+    : ideas.value[0];
+
+  return {
+    prompt,
+    model: VeoModel.VEO_FAST,
+    aspectRatio: startFrame.height > startFrame.width ? AspectRatio.PORTRAIT : AspectRatio.LANDSCAPE,
+    resolution: Resolution.P720,
+    mode: GenerationMode.FRAMES_TO_VIDEO,
+    startFrame,
+    endFrame,
+    referenceImages: [],
+    inputVideo: null,
+    inputVideoObject: null,
+    isLooping: false,
+  };
+};
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerationErrorKind} from '../types';
+
+/** The caller aborted the generation (e.g. the user pressed cancel). */
+export class GenerationCancelledError extends Error {
+  constructor(message = 'Generation was cancelled.') {
+    super(message);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/** The generation did not finish within the allowed time. */
+export class GenerationTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Generation timed out after ${Math.round(timeoutMs / 60000)} min.`);
+    this.name = 'GenerationTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationCancelledError();
+};
+
+const ERROR_MESSAGES: Record<GenerationErrorKind, string> = {
+  auth: 'The API key was rejected or billing is not enabled for this project.',
+  quota: 'Rate limit or quota exceeded. Try again in a little while.',
+  safety: 'The request or its result was blocked by safety filters. Try rephrasing the prompt.',
+  invalid_request: 'The request was rejected as invalid.',
+  network: 'Could not reach the generation service.',
+  malformed_output: 'The model returned a response that could not be understood.',
+  unknown: 'Generation failed.',
+};
+
+const MAX_DETAIL_LENGTH = 160;
+
+export const ERROR_KIND_LABELS: Record<GenerationErrorKind, string> = {
+  auth: 'Auth / Billing',
+  quota: 'Quota',
+  safety: 'Safety Filter',
+  invalid_request: 'Invalid Request',
+  network: 'Network',
+  malformed_output: 'Bad Output',
+  unknown: 'Error',
+};
+
+/**
+ * A failed generation, classified so callers can decide whether to retry, ask
+ * for a new API key, or tell the user to change the prompt. `message` is meant
+ * for the UI; `detail` keeps what the backend actually said.
+ */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly status?: number;
+  readonly detail?: string;
+
+  constructor(kind: GenerationErrorKind, detail?: string, options: {status?: number; cause?: unknown} = {}) {
+    // SDK messages can embed whole JSON error bodies; keep the UI text short.
+    const shown = detail && detail.length > MAX_DETAIL_LENGTH ? `${detail.slice(0, MAX_DETAIL_LENGTH)}...` : detail;
+    super(shown && kind !== 'unknown' ? `${ERROR_MESSAGES[kind]} (${shown})` : shown || ERROR_MESSAGES[kind], {cause: options.cause});
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = options.status;
+    this.detail = detail;
+  }
+}
+
+export const kindForStatus = (status: number, message = ''): GenerationErrorKind => {
+  if (status === 401 || status === 403 || status === 402) return 'auth';
+  if (status === 429) return 'quota';
+  // AI Studio reports a key without access to the model as a missing entity.
+  if (status === 404 && /requested entity was not found/i.test(message)) return 'auth';
+  if (status >= 400 && status < 500) return /safety|blocked/i.test(message) ? 'safety' : 'invalid_request';
+  if (status >= 500) return 'network';
+  return 'unknown';
+};
+
+const kindForMessage = (message: string): GenerationErrorKind => {
+  if (/api[_ ]?key|permission_denied|unauthenticated|billing/i.test(message)) return 'auth';
+  if (/resource_exhausted|quota|rate limit/i.test(message)) return 'quota';
+  if (/safety|blocked|responsible ai/i.test(message)) return 'safety';
+  if (/invalid_argument|failed_precondition/i.test(message)) return 'invalid_request';
+  if (/failed to fetch|networkerror|network request failed|load failed|unavailable/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+/** Wraps anything thrown by a provider or the SDK; cancellations and timeouts pass through unchanged. */
+export const toGenerationError = (error: unknown): Error => {
+  if (error instanceof GenerationError || error instanceof GenerationCancelledError || error instanceof GenerationTimeoutError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  // The SDK's ApiError carries the HTTP status; fetch failures are plain TypeErrors.
+  const status = typeof (error as {status?: unknown})?.status === 'number' ? (error as {status: number}).status : undefined;
+  const kind = status !== undefined ? kindForStatus(status, message) : error instanceof TypeError ? 'network' : kindForMessage(message);
+  return new GenerationError(kind, message, {status, cause: error});
+};
+
+/**
+ * Whether a failed call may be repeated. Quota rejections happen before any work
+ * starts, so they are always safe; transient failures and bad model output only
+ * for calls that have no side effects when repeated.
+ */
+export const isRetryable = (error: Error, idempotent: boolean): boolean => {
+  if (!(error instanceof GenerationError)) return false;
+  if (error.kind === 'quota') return true;
+  return idempotent && (error.kind === 'network' || error.kind === 'malformed_output');
+};
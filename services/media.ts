@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ImageFile} from '../types';
+
+// A truncated or undecodable blob may never fire loadedmetadata or error.
+const PROBE_TIMEOUT_MS = 10_000;
+
+/**
+ * Reads the length of a video blob in seconds. Clips recorded with MediaRecorder
+ * carry no duration in their header, so for those we seek to the end and wait
+ * for the browser to work it out. Rejects if that takes longer than
+ * PROBE_TIMEOUT_MS.
+ */
+export const probeVideoDuration = (blob: Blob): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.muted = true;
+
+    const finish = (duration?: number) => {
+      clearTimeout(timeoutId);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      if (duration !== undefined) resolve(duration);
+      else reject(new Error('Could not read video duration'));
+    };
+
+    video.onloadedmetadata = () => {
+      if (Number.isFinite(video.duration)) {
+        finish(video.duration);
+        return;
+      }
+      video.ondurationchange = () => {
+        if (Number.isFinite(video.duration)) finish(video.duration);
+      };
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    video.onerror = () => finish();
+    const timeoutId = setTimeout(() => finish(), PROBE_TIMEOUT_MS);
+    video.src = url;
+  });
+
+export interface CapturedFrame extends ImageFile {
+  width: number;
+  height: number;
+}
+
+/** Reads a blob as the base64 payload (without the data: prefix) the APIs expect. */
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsDataURL(blob);
+  });
+
+/** Snapshots whatever frame a <video> element is showing as a full-resolution PNG. */
+export const snapshotVideo = async (video: HTMLVideoElement, name = 'frame.png'): Promise<CapturedFrame> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.drawImage(video, 0, 0);
+  const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!png) throw new Error('Could not encode the frame');
+  const file = new File([png], name, {type: 'image/png'});
+  return {file, base64: await blobToBase64(png), width: canvas.width, height: canvas.height};
+};
+
+/**
+ * Grabs the frame at `time` seconds into a video blob, ready to use as a start
+ * or end frame.
+ */
+export const captureFrame = (blob: Blob, time: number, name = 'frame.png'): Promise<CapturedFrame> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+
+    const cleanup = () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+
+    video.onloadeddata = () => {
+      video.onseeked = () => {
+        snapshotVideo(video, name).then(resolve, reject).finally(cleanup);
+      };
+      video.currentTime = Math.max(0, time);
+    };
+    video.onerror = () => {
+      cleanup();
+      reject(new Error('Could not read a frame from the clip'));
+    };
+    video.src = url;
+  });
+
+/**
+ * Shrinks an image so its longest edge is at most `maxEdge` pixels. Images that
+ * already fit are returned untouched; PNGs stay PNG so transparency survives,
+ * everything else is re-encoded as JPEG.
+ */
+export const downscaleImage = async (blob: Blob, maxEdge: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob).catch(() => {
+    throw new Error('Could not read the image');
+  });
+  try {
+    const scale = maxEdge / Math.max(bitmap.width, bitmap.height);
+    if (scale >= 1) return blob;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const scaled = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.92));
+    if (!scaled) throw new Error('Could not encode the image');
+    return scaled;
+  } finally {
+    bitmap.close();
+  }
+};
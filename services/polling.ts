@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerationCancelledError, GenerationTimeoutError, throwIfAborted} from './errors';
+
+export interface PollSchedule {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+}
+
+// Veo jobs take one to several minutes: poll quickly at first, then back off.
+export const DEFAULT_POLL_SCHEDULE: PollSchedule = {
+  initialDelayMs: 2000,
+  maxDelayMs: 15000,
+  multiplier: 1.5,
+};
+
+export const DEFAULT_VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface WaitOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  schedule?: PollSchedule;
+}
+
+/** Resolves after `ms`, or rejects with GenerationCancelledError as soon as `signal` aborts. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new GenerationCancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+/**
+ * Calls `check` on a backoff schedule until it returns a value other than
+ * undefined. Throws GenerationTimeoutError once `timeoutMs` has elapsed and
+ * GenerationCancelledError when `signal` aborts.
+ */
+export const pollUntil = async <T>(check: () => Promise<T | undefined>, options: WaitOptions = {}): Promise<T> => {
+  const {signal, timeoutMs = DEFAULT_VIDEO_TIMEOUT_MS, schedule = DEFAULT_POLL_SCHEDULE} = options;
+  const deadline = Date.now() + timeoutMs;
+  let delayMs = schedule.initialDelayMs;
+
+  while (true) {
+    throwIfAborted(signal);
+    const result = await check();
+    if (result !== undefined) return result;
+    if (Date.now() + delayMs > deadline) throw new GenerationTimeoutError(timeoutMs);
+    await sleep(delayMs, signal);
+    delayMs = Math.min(schedule.maxDelayMs, delayMs * schedule.multiplier);
+  }
+};
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {hydrateProject, isRecord, ProjectDocument, ProjectState, serializeProject} from './projectStore';
+
+// A project archive is a plain (uncompressed) ZIP file: videos and images are
+// already compressed, and "stored" entries let us slice blobs straight out of
+// the file on import without copying them.
+//
+//   manifest.json      ArchiveManifest
+//   blobs/<key>        one entry per video/image blob referenced by the document
+
+export const ARCHIVE_FORMAT = 'unicorn-films-project';
+export const ARCHIVE_EXTENSION = '.unicorn.zip';
+const MANIFEST_PATH = 'manifest.json';
+
+type BlobEntry = { path: string; type: string };
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  exportedAt: number;
+  project: ProjectDocument;
+  blobs: Record<string, BlobEntry>;
+}
+
+// An imported manifest's project is only checked loosely; hydrateProject migrates and validates it.
+type ImportedManifest = Omit<ArchiveManifest, 'project'> & { project: Record<string, unknown> };
+
+export interface ImportedArchive {
+  project: ProjectState;
+  missingBlobCount: number;
+}
+
+// --- ZIP (store only) ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const buildZip = async (entries: { path: string; data: Blob }[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const {time, date} = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+    const size = entry.data.size;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    const record = new Uint8Array(46 + name.length);
+    record.set(new Uint8Array(header.buffer), 0);
+    record.set(name, 46);
+    central.push(record);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], {type: 'application/zip'});
+};
+
+const readZip = async (file: Blob): Promise<Map<string, Blob>> => {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment.
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a valid project archive.');
+
+  const count = tail.getUint16(eocd + 10, true);
+  const centralSize = tail.getUint32(eocd + 12, true);
+  const centralOffset = tail.getUint32(eocd + 16, true);
+  const centralDir = new DataView(await file.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const files = new Map<string, Blob>();
+
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (centralDir.getUint32(pos, true) !== 0x02014b50) throw new Error('Corrupt project archive.');
+    const method = centralDir.getUint16(pos + 10, true);
+    const size = centralDir.getUint32(pos + 20, true);
+    const nameLength = centralDir.getUint16(pos + 28, true);
+    const extraLength = centralDir.getUint16(pos + 30, true);
+    const commentLength = centralDir.getUint16(pos + 32, true);
+    const localOffset = centralDir.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(centralDir.buffer, pos + 46, nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (method !== 0) {
+      console.warn(`Skipping compressed archive entry ${name}.`);
+      continue;
+    }
+    const local = new DataView(await file.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    files.set(name, file.slice(dataStart, dataStart + size));
+  }
+  return files;
+};
+
+// --- Export / Import ---
+
+export const exportProjectArchive = async (state: ProjectState): Promise<Blob> => {
+  const {doc, blobs} = serializeProject(state);
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    exportedAt: Date.now(),
+    project: doc,
+    blobs: {},
+  };
+  const entries: { path: string; data: Blob }[] = [];
+  for (const [key, blob] of blobs) {
+    const path = `blobs/${key}`;
+    manifest.blobs[key] = { path, type: blob.type };
+    entries.push({ path, data: blob });
+  }
+  entries.unshift({
+    path: MANIFEST_PATH,
+    data: new Blob([JSON.stringify(manifest)], {type: 'application/json'}),
+  });
+  return buildZip(entries);
+};
+
+const isBlobEntry = (value: unknown): value is BlobEntry =>
+  isRecord(value) && typeof value.path === 'string' && typeof value.type === 'string';
+
+const validateManifest = (raw: unknown): ImportedManifest => {
+  if (!isRecord(raw) || raw.format !== ARCHIVE_FORMAT) {
+    throw new Error('This file is not a Unicorn-Films project archive.');
+  }
+  const {project, blobs} = raw;
+  if (!isRecord(project) || typeof project.schemaVersion !== 'number') {
+    throw new Error('Project archive manifest is missing its project document.');
+  }
+  // v1 documents held a flat scene list; later ones group scenes into buckets.
+  const hasStories = Array.isArray(project.buckets) || Array.isArray(project.scenes);
+  if (!hasStories || !Array.isArray(project.assets)) {
+    throw new Error('Project archive manifest is malformed.');
+  }
+  if (!isRecord(blobs) || !Object.values(blobs).every(isBlobEntry)) {
+    throw new Error('Project archive manifest has no valid blob index.');
+  }
+  return {
+    format: ARCHIVE_FORMAT,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+    project,
+    blobs: blobs as Record<string, BlobEntry>,
+  };
+};
+
+export const importProjectArchive = async (file: Blob): Promise<ImportedArchive> => {
+  const files = await readZip(file);
+  const manifestFile = files.get(MANIFEST_PATH);
+  if (!manifestFile) throw new Error('Project archive has no manifest.');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestFile.text());
+  } catch {
+    throw new Error('Project archive manifest is not valid JSON.');
+  }
+  const manifest = validateManifest(raw);
+
+  let missingBlobCount = 0;
+  const project = await hydrateProject(manifest.project, async key => {
+    const entry = manifest.blobs[key];
+    const data = entry && files.get(entry.path);
+    if (!data) {
+      missingBlobCount++;
+      return undefined;
+    }
+    // Re-wrap so the blob carries its original MIME type instead of the archive's.
+    return new Blob([data], {type: entry.type});
+  });
+  return { project, missingBlobCount };
+};
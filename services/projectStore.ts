@@ -0,0 +1,439 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Asset,
+  AudioClip,
+  AudioTrack,
+  FilmStyle,
+  ImageFile,
+  PendingOperation,
+  SavedFilterView,
+  Scene,
+  SceneProvenance,
+  SceneTake,
+  StoryBucket,
+} from '../types';
+import {blobToBase64, probeVideoDuration} from './media';
+
+// --- Project Model ---
+
+// Bump this whenever the persisted shape of Scene/Asset/etc. changes and add
+// a matching entry to MIGRATIONS that upgrades documents from the old version.
+// New optional fields need no migration: older documents simply don't have them.
+export const PROJECT_SCHEMA_VERSION = 4;
+
+export interface ProjectState {
+  buckets: StoryBucket[];
+  activeBucketId: string;
+  assets: Asset[];
+  customStyles: FilmStyle[];
+  filterViews: SavedFilterView[];
+}
+
+// Blobs and object URLs never live in the document; entities point at a blob key instead.
+export type StoredImageFile = { blobKey: string; name: string };
+export type StoredProvenance = Omit<SceneProvenance, 'startFrame' | 'endFrame' | 'referenceImages'> & {
+  startFrame: StoredImageFile | null;
+  endFrame: StoredImageFile | null;
+  referenceImages: StoredImageFile[];
+};
+export type StoredTake = Omit<SceneTake, 'videoUrl' | 'videoBlob' | 'provenance'> & { videoBlobKey: string; provenance?: StoredProvenance };
+export type StoredScene = Omit<Scene, 'videoUrl' | 'videoBlob' | 'takes' | 'provenance'> & {
+  videoBlobKey: string;
+  takes?: StoredTake[];
+  provenance?: StoredProvenance;
+};
+export type StoredAsset = Omit<Asset, 'imageUrl' | 'imageBlob'> & { imageBlobKey: string };
+export type StoredAudioClip = Omit<AudioClip, 'audioUrl' | 'audioBlob'> & { audioBlobKey: string };
+export type StoredAudioTrack = Omit<AudioTrack, 'clips'> & { clips: StoredAudioClip[] };
+export type StoredBucket = Omit<StoryBucket, 'scenes' | 'audioTracks'> & { scenes: StoredScene[]; audioTracks: StoredAudioTrack[] };
+
+export interface ProjectDocument {
+  schemaVersion: number;
+  savedAt: number;
+  buckets: StoredBucket[];
+  activeBucketId: string;
+  assets: StoredAsset[];
+  customStyles: FilmStyle[];
+  filterViews: SavedFilterView[];
+}
+
+// Documents come from IndexedDB or an imported archive, so nothing about their
+// shape is trusted until validateDocument has checked it.
+type RawDocument = Record<string, unknown>;
+type Migration = (doc: RawDocument) => RawDocument;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const generateId = () => globalThis.crypto?.randomUUID() ?? (Date.now().toString(36) + Math.random().toString(36).slice(2));
+
+export const DEFAULT_BUCKET_NAME = 'Main Story';
+
+export const createBucket = (name: string): StoryBucket => ({
+  id: generateId(),
+  name,
+  scenes: [],
+  audioTracks: [],
+  overlays: [],
+  storyMemory: '',
+  selectedStyle: null,
+  continuity: { activeAssetIds: [], lightingLock: null },
+  storyboard: [],
+});
+
+export const createEmptyProject = (): ProjectState => {
+  const bucket = createBucket(DEFAULT_BUCKET_NAME);
+  return { buckets: [bucket], activeBucketId: bucket.id, assets: [], customStyles: [], filterViews: [] };
+};
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 held a single flat story; v2 nests it in the first story bucket.
+  1: ({scenes, storyMemory, continuity, selectedStyle, ...rest}) => {
+    const id = generateId();
+    return {
+      ...rest,
+      activeBucketId: id,
+      buckets: [{
+        id,
+        name: DEFAULT_BUCKET_NAME,
+        scenes: scenes ?? [],
+        storyMemory: storyMemory ?? '',
+        selectedStyle: selectedStyle ?? null,
+        continuity: continuity ?? { activeAssetIds: [], lightingLock: null },
+        storyboard: [],
+      }],
+    };
+  },
+  // v3 gives every bucket audio tracks and a text track.
+  2: ({buckets, ...rest}) => ({
+    ...rest,
+    buckets: Array.isArray(buckets)
+      ? buckets.map(bucket => isRecord(bucket) ? {audioTracks: [], overlays: [], ...bucket} : bucket)
+      : buckets,
+  }),
+  // v4 adds saved filter views.
+  3: doc => ({...doc, filterViews: doc.filterViews ?? []}),
+};
+
+const isBlobKeyed = (key: string) => (value: unknown) => isRecord(value) && typeof value.id === 'string' && typeof value[key] === 'string';
+
+/** Checks the parts of a current-version document that hydration relies on. */
+const validateDocument = (doc: RawDocument): ProjectDocument => {
+  const {buckets, assets, customStyles, filterViews, activeBucketId} = doc;
+  const bucketsValid = Array.isArray(buckets) && buckets.every(bucket =>
+    isRecord(bucket) && typeof bucket.id === 'string' &&
+    Array.isArray(bucket.scenes) && bucket.scenes.every(isBlobKeyed('videoBlobKey')) &&
+    Array.isArray(bucket.audioTracks) && bucket.audioTracks.every(track => isRecord(track) && Array.isArray(track.clips) && track.clips.every(isBlobKeyed('audioBlobKey'))) &&
+    Array.isArray(bucket.overlays)
+  );
+  if (!bucketsValid) throw new Error('Project document has malformed story buckets.');
+  if (!Array.isArray(assets) || !assets.every(isBlobKeyed('imageBlobKey'))) {
+    throw new Error('Project document has malformed assets.');
+  }
+  if (!Array.isArray(customStyles) || !Array.isArray(filterViews) || typeof activeBucketId !== 'string') {
+    throw new Error('Project document is malformed.');
+  }
+  return doc as unknown as ProjectDocument;
+};
+
+export const migrateDocument = (raw: unknown): ProjectDocument => {
+  if (!isRecord(raw)) throw new Error('Project document is not an object.');
+  let doc: RawDocument = raw;
+  let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project was saved by a newer version (schema ${version}).`);
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project schema ${version}.`);
+    doc = {...migrate(doc), schemaVersion: version + 1};
+    version++;
+  }
+  return validateDocument(doc);
+};
+
+// --- Serialization ---
+
+// Each Blob instance gets a stable key the first time it is seen, so unchanged
+// blobs are written once and shared blobs are stored once.
+const blobKeys = new WeakMap<Blob, string>();
+
+const keyForBlob = (blob: Blob): string => {
+  let key = blobKeys.get(blob);
+  if (!key) {
+    key = generateId();
+    blobKeys.set(blob, key);
+  }
+  return key;
+};
+
+/** Stores a File made from an existing blob under that blob's key instead of as a copy. */
+export const shareBlobKey = (copy: Blob, original: Blob) => {
+  blobKeys.set(copy, keyForBlob(original));
+};
+
+export const serializeProject = (state: ProjectState): { doc: ProjectDocument; blobs: Map<string, Blob> } => {
+  const blobs = new Map<string, Blob>();
+  const track = (blob: Blob) => {
+    const key = keyForBlob(blob);
+    blobs.set(key, blob);
+    return key;
+  };
+
+  // Provenance images are stored as blobs; their base64 is rebuilt on load.
+  const storeImage = (image: ImageFile | null) => image && {blobKey: track(image.file), name: image.file.name};
+  const storeProvenance = (provenance?: SceneProvenance): StoredProvenance | undefined => provenance && {
+    ...provenance,
+    startFrame: storeImage(provenance.startFrame),
+    endFrame: storeImage(provenance.endFrame),
+    referenceImages: provenance.referenceImages.map(image => storeImage(image)!),
+  };
+
+  const doc: ProjectDocument = {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: Date.now(),
+    buckets: state.buckets.map(bucket => ({
+      ...bucket,
+      scenes: bucket.scenes.map(({videoUrl, videoBlob, takes, provenance, ...rest}) => ({
+        ...rest,
+        videoBlobKey: track(videoBlob),
+        provenance: storeProvenance(provenance),
+        // The selected take shares the scene's blob, so it is only stored once.
+        takes: takes?.map(({videoUrl, videoBlob, provenance, ...take}) => ({
+          ...take,
+          videoBlobKey: track(videoBlob),
+          provenance: storeProvenance(provenance),
+        })),
+      })),
+      audioTracks: bucket.audioTracks.map(audioTrack => ({
+        ...audioTrack,
+        clips: audioTrack.clips.map(({audioUrl, audioBlob, ...rest}) => ({...rest, audioBlobKey: track(audioBlob)})),
+      })),
+    })),
+    activeBucketId: state.activeBucketId,
+    assets: state.assets.map(({imageUrl, imageBlob, ...rest}) => ({...rest, imageBlobKey: track(imageBlob)})),
+    customStyles: state.customStyles,
+    filterViews: state.filterViews,
+  };
+  return { doc, blobs };
+};
+
+/**
+ * Rebuilds live state from a (migrated) document. Entities whose blob cannot be
+ * found are dropped rather than failing the whole project.
+ */
+export const hydrateProject = async (
+  raw: unknown,
+  getBlob: (key: string) => Promise<Blob | undefined>
+): Promise<ProjectState> => {
+  const doc = migrateDocument(raw);
+
+  // Blobs shared by several entities (a scene and its selected take) are read once and share one URL.
+  const loaded = new Map<string, Promise<{blob: Blob; url: string} | undefined>>();
+  const loadMedia = (key: string) => {
+    if (!loaded.has(key)) {
+      loaded.set(key, getBlob(key).then(blob => {
+        if (!blob) return undefined;
+        blobKeys.set(blob, key);
+        return {blob, url: URL.createObjectURL(blob)};
+      }));
+    }
+    return loaded.get(key)!;
+  };
+
+  // A missing image is dropped from the provenance rather than losing the scene.
+  const loadImage = async (stored: StoredImageFile | null): Promise<ImageFile | null> => {
+    const media = stored && await loadMedia(stored.blobKey);
+    if (!stored || !media) return null;
+    const file = new File([media.blob], stored.name, {type: media.blob.type});
+    blobKeys.set(file, stored.blobKey);
+    return {file, base64: await blobToBase64(file)};
+  };
+  const loadProvenance = async (stored?: StoredProvenance): Promise<SceneProvenance | undefined> => {
+    if (!stored) return undefined;
+    const referenceImages = await Promise.all(stored.referenceImages.map(loadImage));
+    return {
+      ...stored,
+      startFrame: await loadImage(stored.startFrame),
+      endFrame: await loadImage(stored.endFrame),
+      referenceImages: referenceImages.filter((image): image is ImageFile => image !== null),
+    };
+  };
+
+  const buckets: StoryBucket[] = [];
+  for (const stored of doc.buckets) {
+    const scenes: Scene[] = [];
+    for (const {videoBlobKey, takes: storedTakes, provenance: storedProvenance, ...rest} of stored.scenes) {
+      const media = await loadMedia(videoBlobKey);
+      if (!media) {
+        console.warn(`Missing video for scene ${rest.id}, skipping.`);
+        continue;
+      }
+      // Scenes saved before trimming existed have no recorded duration.
+      const duration = rest.duration ?? await probeVideoDuration(media.blob).catch(() => undefined);
+      let takes: SceneTake[] | undefined;
+      if (storedTakes) {
+        takes = [];
+        for (const {videoBlobKey: takeKey, provenance: takeProvenance, ...take} of storedTakes) {
+          const takeMedia = await loadMedia(takeKey);
+          if (takeMedia) takes.push({...take, provenance: await loadProvenance(takeProvenance), videoBlob: takeMedia.blob, videoUrl: takeMedia.url});
+          else console.warn(`Missing video for take ${take.id}, skipping.`);
+        }
+      }
+      const provenance = await loadProvenance(storedProvenance);
+      scenes.push({...rest, duration, takes, provenance, videoBlob: media.blob, videoUrl: media.url});
+    }
+    const audioTracks: AudioTrack[] = [];
+    for (const {clips: storedClips, ...audioTrack} of stored.audioTracks) {
+      const clips: AudioClip[] = [];
+      for (const {audioBlobKey, ...rest} of storedClips) {
+        const media = await loadMedia(audioBlobKey);
+        if (media) clips.push({...rest, audioBlob: media.blob, audioUrl: media.url});
+        else console.warn(`Missing audio for clip ${rest.id}, skipping.`);
+      }
+      audioTracks.push({...audioTrack, clips});
+    }
+    buckets.push({...stored, scenes, audioTracks});
+  }
+  if (buckets.length === 0) buckets.push(createBucket(DEFAULT_BUCKET_NAME));
+
+  const assets: Asset[] = [];
+  for (const {imageBlobKey, ...rest} of doc.assets) {
+    const media = await loadMedia(imageBlobKey);
+    if (!media) {
+      console.warn(`Missing image for asset ${rest.id}, skipping.`);
+      continue;
+    }
+    assets.push({...rest, imageBlob: media.blob, imageUrl: media.url});
+  }
+
+  return {
+    buckets,
+    activeBucketId: buckets.some(b => b.id === doc.activeBucketId) ? doc.activeBucketId : buckets[0].id,
+    assets,
+    customStyles: doc.customStyles,
+    filterViews: doc.filterViews,
+  };
+};
+
+// --- IndexedDB ---
+
+const DB_NAME = 'unicorn-films';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const BLOB_STORE = 'blobs';
+const OPERATION_STORE = 'operations';
+const CURRENT_PROJECT_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE);
+        if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+        if (!db.objectStoreNames.contains(OPERATION_STORE)) db.createObjectStore(OPERATION_STORE, {keyPath: 'id'});
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const loadProject = async (): Promise<ProjectState | null> => {
+  const db = await openDb();
+  const raw = await promisify(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).get(CURRENT_PROJECT_KEY));
+  if (!raw) return null;
+  return hydrateProject(raw, key =>
+    promisify<Blob | undefined>(db.transaction(BLOB_STORE).objectStore(BLOB_STORE).get(key))
+  );
+};
+
+// Keys known to be in the blob store, so autosave only writes new blobs.
+let persistedBlobKeys: Set<string> | null = null;
+
+export const saveProject = async (state: ProjectState): Promise<void> => {
+  const db = await openDb();
+  const { doc, blobs } = serializeProject(state);
+
+  if (!persistedBlobKeys) {
+    const keys = await promisify(db.transaction(BLOB_STORE).objectStore(BLOB_STORE).getAllKeys());
+    persistedBlobKeys = new Set(keys as string[]);
+  }
+  const known = persistedBlobKeys;
+
+  const tx = db.transaction([PROJECT_STORE, BLOB_STORE], 'readwrite');
+  const blobStore = tx.objectStore(BLOB_STORE);
+  for (const [key, blob] of blobs) {
+    if (!known.has(key)) blobStore.put(blob, key);
+  }
+  for (const key of known) {
+    if (!blobs.has(key)) blobStore.delete(key);
+  }
+  tx.objectStore(PROJECT_STORE).put(doc, CURRENT_PROJECT_KEY);
+
+  try {
+    await transactionDone(tx);
+    persistedBlobKeys = new Set(blobs.keys());
+  } catch (error) {
+    // Our view of the blob store may be stale now; re-read it on the next save.
+    persistedBlobKeys = null;
+    throw error;
+  }
+};
+
+// --- Pending Veo operations ---
+
+// Generated videos are only kept server-side for about two days.
+export const OPERATION_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+export const savePendingOperation = async (operation: PendingOperation): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(OPERATION_STORE, 'readwrite');
+  tx.objectStore(OPERATION_STORE).put(operation);
+  await transactionDone(tx);
+};
+
+export const removePendingOperation = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(OPERATION_STORE, 'readwrite');
+  tx.objectStore(OPERATION_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/** Returns resumable operations, dropping any that are too old to collect. */
+export const loadPendingOperations = async (): Promise<PendingOperation[]> => {
+  const db = await openDb();
+  const all = await promisify<PendingOperation[]>(db.transaction(OPERATION_STORE).objectStore(OPERATION_STORE).getAll());
+  const cutoff = Date.now() - OPERATION_TTL_MS;
+  const expired = all.filter(op => op.startedAt < cutoff);
+  if (expired.length > 0) {
+    const tx = db.transaction(OPERATION_STORE, 'readwrite');
+    expired.forEach(op => tx.objectStore(OPERATION_STORE).delete(op.id));
+    await transactionDone(tx);
+    console.warn(`Discarded ${expired.length} expired video operation(s).`);
+  }
+  return all.filter(op => op.startedAt >= cutoff);
+};
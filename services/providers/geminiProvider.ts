@@ -0,0 +1,366 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  type GenerateVideosConfig,
+  GenerateVideosOperation,
+  GoogleGenAI,
+  type Video,
+  type VideoGenerationReferenceImage,
+  VideoGenerationReferenceType,
+} from '@google/genai';
+import {GenerateVideoParams, GenerationMode, ImageFile, VeoModel} from '../../types';
+import {GenerationCancelledError, GenerationError, kindForStatus} from '../errors';
+import {pollUntil, WaitOptions} from '../polling';
+import {
+  ChatTurn,
+  DirectorAction,
+  GeneratedImage,
+  GeneratedVideo,
+  GenerationProvider,
+  ScoreMetadata,
+  StoryboardElement,
+  VideoOperation,
+} from './types';
+
+export interface GeminiModels {
+  chat: string;
+  image: string;
+  // Extension and reference-image generation are only available on standard Veo.
+  videoExtend: string;
+  videoReferences: string;
+  videoDefault: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: GeminiModels = {
+  // Using Gemini 3 Pro for superior reasoning and intent parsing
+  chat: 'gemini-3-pro-preview',
+  // Using the Pro image model as requested for "Nano Banana" equivalent or better
+  image: 'gemini-3-pro-image-preview',
+  videoExtend: VeoModel.VEO,
+  videoReferences: VeoModel.VEO,
+  videoDefault: VeoModel.VEO_FAST,
+};
+
+export interface GeminiProviderOptions {
+  id?: string;
+  apiKey?: string;
+  // Points the SDK at a proxy or alternative endpoint instead of the public Gemini API.
+  baseUrl?: string;
+  models?: Partial<GeminiModels>;
+}
+
+// Models occasionally wrap JSON in markdown fences despite being told not to.
+const parseJson = <T,>(text: string | undefined): T => {
+  try {
+    return JSON.parse((text || '').replace(/```json/g, '').replace(/```/g, ''));
+  } catch {
+    throw new GenerationError('malformed_output', 'Expected JSON from the model');
+  }
+};
+
+// The SDK rejects with its own abort errors; surface them as cancellations.
+const abortable = async <T,>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  try {
+    return await promise;
+  } catch (error) {
+    if (signal?.aborted) throw new GenerationCancelledError();
+    throw error;
+  }
+};
+
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): GenerationProvider => {
+  const {apiKey, baseUrl} = options;
+  const models: GeminiModels = {...DEFAULT_GEMINI_MODELS, ...options.models};
+
+  const getAiClient = () => new GoogleGenAI({apiKey, ...(baseUrl ? {httpOptions: {baseUrl}} : {})});
+
+  // --- Director Assistant Logic ---
+
+  const chatWithDirector = async (history: ChatTurn[], userMessage: string): Promise<DirectorAction> => {
+    const ai = getAiClient();
+
+    const systemInstruction = `You are an AI Film Director Assistant for "Veo Studio".
+  Your goal is to help the user build a movie. You can perform actions by returning a specific JSON structure.
+
+  If the user asks to create/generate a character, object, or location image:
+  Return JSON: { "type": "GENERATE_ASSET", "payload": { "prompt": "detailed visual description of the asset...", "name": "short name, e.g. Detective John", "assetType": "character" or "environment" or "object" } }
+
+  If the user asks to write a scene, script, or set the video prompt:
+  Return JSON: { "type": "UPDATE_PROMPT", "payload": { "prompt": "optimized video generation prompt..." } }
+
+  If the user asks to go to storyboard or studio:
+  Return JSON: { "type": "SWITCH_VIEW", "payload": { "view": "storyboard" or "studio" } }
+
+  Otherwise, answer their question helpfully:
+  Return JSON: { "type": "CHAT_RESPONSE", "payload": { "text": "your helpful response..." } }
+
+  Output ONLY valid JSON. Do not wrap in markdown code blocks.`;
+
+    const response = await ai.models.generateContent({
+      model: models.chat,
+      contents: [
+        ...history.map(h => ({ role: h.role === 'ai' ? 'model' : 'user', parts: [{ text: h.text }] })),
+        { role: 'user', parts: [{ text: userMessage }] }
+      ],
+      config: {
+        systemInstruction,
+        responseMimeType: 'application/json'
+      }
+    });
+
+    const action = parseJson<DirectorAction>(response.text);
+    if (!action?.type || !action.payload) throw new GenerationError('malformed_output', 'Director reply has no action');
+    return action;
+  };
+
+  // --- Storyboard Logic ---
+
+  const generateStoryboardDescription = async (items: StoryboardElement[]): Promise<string> => {
+    const ai = getAiClient();
+
+    // Normalize coordinates to describe "left", "right", "center"
+    const describedItems = items.map(i => {
+      const hPos = i.x < 150 ? "on the left" : i.x > 300 ? "on the right" : "in the center";
+      const vPos = i.y < 150 ? "in the background/top" : "in the foreground/bottom";
+      return `${i.prompt} (${i.note}) located ${hPos} and ${vPos}`;
+    });
+
+    const prompt = `Create a cohesive, single-shot video generation prompt based on this storyboard layout.
+  Combine these elements into a fluid scene description.
+  Elements:
+  ${describedItems.join('\n')}
+
+  Keep it cinematic, detailed, and under 60 words. Focus on the spatial relationships described.`;
+
+    const response = await ai.models.generateContent({ model: models.chat, contents: prompt });
+    if (!response.text) throw new GenerationError('malformed_output', 'Empty scene description');
+    return response.text;
+  };
+
+  // --- Bin System Logic ---
+
+  const generateScript = async (prompt: string): Promise<string> => {
+    const ai = getAiClient();
+
+    const response = await ai.models.generateContent({
+      model: models.chat,
+      contents: `You are an expert screenwriter. Refine this idea into a detailed visual description suitable for AI video generation (Veo).
+    Focus on lighting, camera movement, and subject details.
+    User Idea: ${prompt}`,
+    });
+
+    if (!response.text) throw new GenerationError('malformed_output', 'Empty script');
+    return response.text;
+  };
+
+  const generateScoreMetadata = async (mood: string): Promise<ScoreMetadata> => {
+    const ai = getAiClient();
+
+    const response = await ai.models.generateContent({
+      model: models.chat,
+      contents: `Generate a musical score idea for a film scene with this mood: "${mood}".
+    Return JSON with:
+    - title (creative name)
+    - description (instruments, texture, feeling)
+    - bpm (number as string)
+    - instruments (array of strings)
+    `,
+      config: { responseMimeType: 'application/json' }
+    });
+
+    const score = parseJson<ScoreMetadata>(response.text);
+    if (!score?.title || !Array.isArray(score.instruments)) throw new GenerationError('malformed_output', 'Score is missing fields');
+    return score;
+  };
+
+  const generateTransitionPrompts = async (prevSceneDescription: string, nextSceneDescription?: string): Promise<string[]> => {
+    const ai = getAiClient();
+
+    // With both ends known, each idea is a complete video prompt for a shot that starts
+    // on the last frame of one scene and ends on the first frame of the next.
+    const contents = nextSceneDescription
+      ? `A film cuts from scene A: "${prevSceneDescription}" to scene B: "${nextSceneDescription}".
+    Suggest 3 short connecting shots that begin exactly where scene A ends and finish exactly where scene B begins.
+    Write each as a self-contained video generation prompt describing the camera move and what changes on screen.
+    Return JSON: { "ideas": ["string1", "string2", "string3"] }`
+      : `Based on the previous scene: "${prevSceneDescription}", suggest 3 B-Roll or transition shot ideas to bridge to a new scene.
+    Return JSON: { "ideas": ["string1", "string2", "string3"] }`;
+
+    const response = await ai.models.generateContent({
+      model: models.chat,
+      contents,
+      config: { responseMimeType: 'application/json' }
+    });
+
+    const data = parseJson<{ ideas?: unknown }>(response.text);
+    if (!Array.isArray(data?.ideas) || data.ideas.length === 0) throw new GenerationError('malformed_output', 'No transition ideas');
+    return data.ideas.map(String);
+  };
+
+  // --- Asset Generation ---
+
+  const generateImage = async (prompt: string, reference?: ImageFile): Promise<GeneratedImage> => {
+    const ai = getAiClient();
+    const referencePart = reference ? [{ inlineData: { data: reference.base64, mimeType: reference.file.type || 'image/png' } }] : [];
+
+    const response = await ai.models.generateContent({
+      model: models.image,
+      contents: {
+        parts: [...referencePart, { text: prompt }]
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: "1:1",
+          imageSize: "1K"
+        }
+      }
+    });
+
+    if (response.promptFeedback?.blockReason) {
+      throw new GenerationError('safety', response.promptFeedback.blockReasonMessage || response.promptFeedback.blockReason);
+    }
+    const candidate = response.candidates?.[0];
+    for (const part of candidate?.content?.parts || []) {
+      if (part.inlineData) {
+          const base64 = part.inlineData.data;
+          const binary = atob(base64);
+          const array = new Uint8Array(binary.length);
+          for(let i = 0; i < binary.length; i++) array[i] = binary.charCodeAt(i);
+          const blob = new Blob([array], {type: 'image/png'});
+          const imageUrl = URL.createObjectURL(blob);
+          return { imageUrl, blob };
+      }
+    }
+    if (candidate?.finishReason && /SAFETY|PROHIBITED|BLOCKLIST/.test(candidate.finishReason)) {
+      throw new GenerationError('safety', candidate.finishReason);
+    }
+    throw new GenerationError('malformed_output', 'No image generated');
+  };
+
+  // --- Video Generation ---
+
+  const startVideoGeneration = async (params: GenerateVideoParams, signal?: AbortSignal): Promise<VideoOperation> => {
+    const ai = getAiClient();
+    let operation: GenerateVideosOperation;
+
+    // Check for "Extension" mode
+    if (params.mode === GenerationMode.EXTEND_VIDEO && params.inputVideoObject) {
+         operation = await abortable(ai.models.generateVideos({
+            model: models.videoExtend,
+            prompt: params.prompt || "Continue the video",
+            video: params.inputVideoObject,
+            config: {
+                numberOfVideos: 1,
+                resolution: '720p',
+                aspectRatio: params.aspectRatio,
+                abortSignal: signal,
+            }
+        }), signal);
+    }
+    // Check for "References" mode
+    else if (params.mode === GenerationMode.REFERENCES_TO_VIDEO && params.referenceImages?.length > 0) {
+        const refs: VideoGenerationReferenceImage[] = params.referenceImages.map(img => ({
+             image: { imageBytes: img.base64, mimeType: img.file.type },
+             referenceType: VideoGenerationReferenceType.ASSET,
+        }));
+
+        operation = await abortable(ai.models.generateVideos({
+            model: models.videoReferences,
+            prompt: params.prompt,
+            config: {
+                numberOfVideos: 1,
+                referenceImages: refs,
+                resolution: '720p',
+                aspectRatio: '16:9',
+                abortSignal: signal,
+            }
+        }), signal);
+    }
+    // Standard generation (Text or Image-to-Video)
+    else {
+        const modelName = params.model || models.videoDefault;
+        const config: GenerateVideosConfig = {
+            numberOfVideos: 1,
+            resolution: params.resolution,
+            aspectRatio: params.aspectRatio,
+            abortSignal: signal,
+        };
+
+        // Veo interpolates towards the last frame; a loop ends on the frame it started from.
+        const lastFrame = params.isLooping ? params.startFrame : params.endFrame;
+        if (lastFrame && !params.startFrame) {
+             throw new GenerationError('invalid_request', 'An end frame needs a start frame');
+        }
+
+        // Add start frame if present
+        if (params.startFrame) {
+             if (lastFrame) config.lastFrame = { imageBytes: lastFrame.base64, mimeType: lastFrame.file.type };
+             operation = await abortable(ai.models.generateVideos({
+                model: modelName,
+                prompt: params.prompt,
+                image: { imageBytes: params.startFrame.base64, mimeType: params.startFrame.file.type },
+                config
+             }), signal);
+        } else {
+             operation = await abortable(ai.models.generateVideos({
+                model: modelName,
+                prompt: params.prompt,
+                config
+             }), signal);
+        }
+    }
+
+    if (!operation.name) throw new GenerationError('malformed_output', 'Video operation has no name');
+    return { name: operation.name };
+  };
+
+  /** Polls an operation on a backoff schedule until it finishes, then downloads the generated video. */
+  const waitForVideo = async ({name}: VideoOperation, options: WaitOptions = {}): Promise<GeneratedVideo> => {
+    const ai = getAiClient();
+    const {signal} = options;
+    let operation = new GenerateVideosOperation();
+    operation.name = name;
+
+    // Poll for completion
+    operation = await pollUntil(async () => {
+        operation = await abortable(ai.operations.getVideosOperation({operation, config: {abortSignal: signal}}), signal);
+        return operation.done ? operation : undefined;
+    }, options);
+
+    if (operation.error) {
+      const message = String(operation.error.message ?? 'Video operation failed');
+      throw new GenerationError(/safety|blocked/i.test(message) ? 'safety' : 'invalid_request', message);
+    }
+    const video = operation.response?.generatedVideos?.[0]?.video;
+    const videoUri = video?.uri;
+    if (!videoUri) {
+      if (operation.response?.raiMediaFilteredCount) {
+        throw new GenerationError('safety', operation.response.raiMediaFilteredReasons?.join(' ') || undefined);
+      }
+      throw new GenerationError('malformed_output', 'No video URI returned');
+    }
+
+    const videoRes = await abortable(fetch(`${videoUri}&key=${apiKey}`, {signal}), signal);
+    if (!videoRes.ok) {
+      throw new GenerationError(kindForStatus(videoRes.status), `Video download failed: ${videoRes.status}`, {status: videoRes.status});
+    }
+    const blob = await videoRes.blob();
+    const objectUrl = URL.createObjectURL(blob);
+
+    return { objectUrl, blob, video: video as Video };
+  };
+
+  return {
+    id: options.id ?? 'gemini',
+    chatWithDirector,
+    generateStoryboardDescription,
+    generateScript,
+    generateScoreMetadata,
+    generateTransitionPrompts,
+    generateImage,
+    startVideoGeneration,
+    waitForVideo,
+  };
+};
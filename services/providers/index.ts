@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {createGeminiProvider} from './geminiProvider';
+import {createMockProvider} from './mockProvider';
+import {GenerationProvider} from './types';
+
+export type ProviderId = 'gemini' | 'proxy' | 'mock';
+
+/**
+ * Picks the backend from the build environment:
+ * - GENERATION_PROVIDER=mock  offline canned clips and images
+ * - GEMINI_API_URL=<url>      Gemini protocol against a custom base URL (e.g. a proxy)
+ * - otherwise                 the public Gemini API
+ */
+export const resolveProviderId = (): ProviderId => {
+  if (process.env.GENERATION_PROVIDER === 'mock') return 'mock';
+  if (process.env.GEMINI_API_URL) return 'proxy';
+  return 'gemini';
+};
+
+export const createProvider = (id: ProviderId): GenerationProvider => {
+  switch (id) {
+    case 'mock':
+      return createMockProvider();
+    case 'proxy':
+      return createGeminiProvider({id: 'proxy', apiKey: process.env.API_KEY, baseUrl: process.env.GEMINI_API_URL});
+    case 'gemini':
+      return createGeminiProvider({apiKey: process.env.API_KEY});
+  }
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+export const getProvider = (): GenerationProvider => {
+  if (!activeProvider) activeProvider = createProvider(resolveProviderId());
+  return activeProvider;
+};
+
+export const setProvider = (provider: GenerationProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AspectRatio, GenerateVideoParams, ImageFile} from '../../types';
+import {inferAssetType} from '../assets';
+import {GenerationCancelledError, GenerationTimeoutError} from '../errors';
+import {DEFAULT_VIDEO_TIMEOUT_MS, sleep, WaitOptions} from '../polling';
+import {
+  ChatTurn,
+  DirectorAction,
+  GeneratedImage,
+  GeneratedVideo,
+  GenerationProvider,
+  ScoreMetadata,
+  StoryboardElement,
+  VideoOperation,
+} from './types';
+
+// An offline provider for developing and demoing the UI without an API key.
+// Images and clips are drawn locally on a canvas from the prompt text, so every
+// generation is distinguishable but nothing leaves the browser.
+
+const MOCK_LATENCY_MS = 800;
+const MOCK_CLIP_SECONDS = 4;
+const MOCK_FPS = 24;
+
+const generateId = () => globalThis.crypto?.randomUUID() ?? (Date.now().toString(36) + Math.random().toString(36).slice(2));
+const delay = (ms: number, signal?: AbortSignal) => sleep(ms, signal);
+
+// Stable hue per prompt so repeated prompts look alike.
+const hueFor = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(hash) % 360;
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawCard = (ctx: CanvasRenderingContext2D, width: number, height: number, prompt: string, t: number, badge: string) => {
+  const hue = hueFor(prompt);
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${(hue + t * 40) % 360}, 45%, 22%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60 + t * 40) % 360}, 55%, 38%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // A drifting circle gives clips visible motion.
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.beginPath();
+  ctx.arc(width * (0.2 + 0.6 * (t % 1)), height * 0.5, Math.min(width, height) * 0.18, 0, Math.PI * 2);
+  ctx.fill();
+
+  const fontSize = Math.round(Math.min(width, height) / 16);
+  ctx.font = `500 ${fontSize}px Montserrat, sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.textAlign = 'center';
+  const lines = wrapText(ctx, prompt, width * 0.8).slice(0, 4);
+  lines.forEach((line, i) => {
+    ctx.fillText(line, width / 2, height / 2 + (i - (lines.length - 1) / 2) * fontSize * 1.3);
+  });
+
+  ctx.font = `700 ${Math.round(fontSize * 0.6)}px monospace`;
+  ctx.fillStyle = '#D4A373';
+  ctx.textAlign = 'left';
+  ctx.fillText(badge, fontSize * 0.6, fontSize * 1.2);
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  return {canvas, ctx};
+};
+
+const renderMockClip = (prompt: string, aspectRatio: AspectRatio, signal?: AbortSignal): Promise<Blob> => {
+  const [width, height] = aspectRatio === AspectRatio.PORTRAIT ? [360, 640] : [640, 360];
+  const {canvas, ctx} = createCanvas(width, height);
+  const stream = canvas.captureStream(MOCK_FPS);
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+  const recorder = new MediaRecorder(stream, {mimeType});
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+
+  return new Promise((resolve, reject) => {
+    recorder.onstop = () => signal?.aborted
+      ? reject(new GenerationCancelledError())
+      : resolve(new Blob(chunks, {type: 'video/webm'}));
+    recorder.onerror = () => reject(new Error('Mock clip recording failed'));
+    recorder.start();
+    const startedAt = performance.now();
+    const finish = () => {
+      clearInterval(intervalId);
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach(track => track.stop());
+    };
+    const intervalId = setInterval(() => {
+      const t = (performance.now() - startedAt) / 1000;
+      drawCard(ctx, width, height, prompt, t / MOCK_CLIP_SECONDS, 'MOCK CLIP');
+      if (t >= MOCK_CLIP_SECONDS) finish();
+    }, 1000 / MOCK_FPS);
+    signal?.addEventListener('abort', finish, {once: true});
+  });
+};
+
+// Operations started in this session; anything else (e.g. after a reload) renders a generic clip.
+const pendingMockOperations = new Map<string, GenerateVideoParams>();
+
+export const createMockProvider = (): GenerationProvider => {
+  const chatWithDirector = async (_history: ChatTurn[], userMessage: string): Promise<DirectorAction> => {
+    await delay(MOCK_LATENCY_MS);
+    const text = userMessage.toLowerCase();
+    if (/\b(storyboard|studio)\b/.test(text) && /\b(go|switch|open|show)\b/.test(text)) {
+      return { type: 'SWITCH_VIEW', payload: { view: text.includes('storyboard') ? 'storyboard' : 'studio' } };
+    }
+    if (/\b(character|asset|prop|location|image)\b/.test(text)) {
+      return { type: 'GENERATE_ASSET', payload: { prompt: userMessage, assetType: inferAssetType(userMessage) } };
+    }
+    if (/\b(scene|script|shot|prompt)\b/.test(text)) {
+      return { type: 'UPDATE_PROMPT', payload: { prompt: `Cinematic shot: ${userMessage}` } };
+    }
+    return { type: 'CHAT_RESPONSE', payload: { text: `(Mock director) You said: "${userMessage}".` } };
+  };
+
+  const generateStoryboardDescription = async (items: StoryboardElement[]): Promise<string> => {
+    await delay(MOCK_LATENCY_MS);
+    return `Cinematic wide shot featuring ${items.map(i => `${i.prompt} (${i.note})`).join(', ')}.`;
+  };
+
+  const generateScript = async (prompt: string): Promise<string> => {
+    await delay(MOCK_LATENCY_MS);
+    return `Slow dolly-in, golden rim light. ${prompt}. The camera settles on the subject as dust drifts through the beam.`;
+  };
+
+  const generateScoreMetadata = async (mood: string): Promise<ScoreMetadata> => {
+    await delay(MOCK_LATENCY_MS);
+    return { title: `Mock Score: ${mood}`, description: `A placeholder cue for "${mood}".`, bpm: '96', instruments: ['Piano', 'Strings'] };
+  };
+
+  const generateTransitionPrompts = async (prevSceneDescription: string, nextSceneDescription?: string): Promise<string[]> => {
+    await delay(MOCK_LATENCY_MS);
+    const subject = prevSceneDescription.slice(0, 40);
+    if (nextSceneDescription) {
+      return [
+        `Camera drifts from "${subject}" to "${nextSceneDescription.slice(0, 40)}"`,
+        'Whip pan that lands on the next scene',
+        'Slow push through a foreground object into the next scene',
+      ];
+    }
+    return [`Close-up detail from "${subject}"`, 'Slow pan across the horizon', 'Match cut on a moving silhouette'];
+  };
+
+  const generateImage = async (prompt: string, reference?: ImageFile): Promise<GeneratedImage> => {
+    await delay(MOCK_LATENCY_MS);
+    const {canvas, ctx} = createCanvas(512, 512);
+    drawCard(ctx, 512, 512, prompt, 0, 'MOCK IMAGE');
+    // Inset the reference so conditioned images visibly come from it.
+    if (reference) {
+      const bitmap = await createImageBitmap(reference.file);
+      ctx.drawImage(bitmap, 512 - 136, 512 - 136, 120, 120);
+      bitmap.close();
+    }
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(b => b ? resolve(b) : reject(new Error('Mock image encoding failed')), 'image/png')
+    );
+    return { imageUrl: URL.createObjectURL(blob), blob };
+  };
+
+  const startVideoGeneration = async (params: GenerateVideoParams, signal?: AbortSignal): Promise<VideoOperation> => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const name = `mock-operations/${generateId()}`;
+    pendingMockOperations.set(name, params);
+    return { name };
+  };
+
+  const waitForVideo = async ({name}: VideoOperation, options: WaitOptions = {}): Promise<GeneratedVideo> => {
+    const {signal, timeoutMs = DEFAULT_VIDEO_TIMEOUT_MS} = options;
+    // Recording happens in real time, so a timeout shorter than the clip can trip.
+    if (timeoutMs < MOCK_CLIP_SECONDS * 1000) throw new GenerationTimeoutError(timeoutMs);
+    const params = pendingMockOperations.get(name);
+    pendingMockOperations.delete(name);
+    const blob = await renderMockClip(params?.prompt || 'Resumed mock clip', params?.aspectRatio ?? AspectRatio.LANDSCAPE, signal);
+    return {
+      objectUrl: URL.createObjectURL(blob),
+      blob,
+      video: { uri: `mock://${name}`, mimeType: blob.type },
+    };
+  };
+
+  return {
+    id: 'mock',
+    chatWithDirector,
+    generateStoryboardDescription,
+    generateScript,
+    generateScoreMetadata,
+    generateTransitionPrompts,
+    generateImage,
+    startVideoGeneration,
+    waitForVideo,
+  };
+};
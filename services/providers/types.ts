@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {Video} from '@google/genai';
+import {GenerateVideoParams, ImageFile} from '../../types';
+import {WaitOptions} from '../polling';
+
+export interface DirectorAction {
+  type: 'GENERATE_ASSET' | 'UPDATE_PROMPT' | 'CHAT_RESPONSE' | 'SWITCH_VIEW';
+  payload: any;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'ai';
+  text: string;
+}
+
+export interface StoryboardElement {
+  prompt: string;
+  note: string;
+  x: number;
+  y: number;
+}
+
+export interface ScoreMetadata {
+  title: string;
+  description: string;
+  bpm: string;
+  instruments: string[];
+}
+
+export interface GeneratedImage {
+  imageUrl: string;
+  blob: Blob;
+}
+
+export interface GeneratedVideo {
+  objectUrl: string;
+  blob: Blob;
+  video: Video;
+  duration?: number; // Seconds; filled in by geminiService once the clip is downloaded
+}
+
+/** Handle for a submitted video job; `name` is enough to resume it in a later session. */
+export interface VideoOperation {
+  name: string;
+}
+
+/**
+ * A backend that can produce everything the studio generates. The UI only talks
+ * to the active provider through `services/geminiService`.
+ */
+export interface GenerationProvider {
+  id: string;
+  chatWithDirector: (history: ChatTurn[], userMessage: string) => Promise<DirectorAction>;
+  generateStoryboardDescription: (items: StoryboardElement[]) => Promise<string>;
+  generateScript: (prompt: string) => Promise<string>;
+  generateScoreMetadata: (mood: string) => Promise<ScoreMetadata>;
+  // Ideas for a shot bridging out of one scene, and into the next one when it is given.
+  generateTransitionPrompts: (prevSceneDescription: string, nextSceneDescription?: string) => Promise<string[]>;
+  // `reference` conditions the image on an existing one, e.g. other views of a character.
+  generateImage: (prompt: string, reference?: ImageFile) => Promise<GeneratedImage>;
+  startVideoGeneration: (params: GenerateVideoParams, signal?: AbortSignal) => Promise<VideoOperation>;
+  // Must honour options.signal (GenerationCancelledError) and options.timeoutMs (GenerationTimeoutError).
+  waitForVideo: (operation: VideoOperation, options?: WaitOptions) => Promise<GeneratedVideo>;
+}
@@ -0,0 +1,301 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AspectRatio, Resolution, StoryBucket, TitleCard} from '../types';
+import {GenerationCancelledError} from './errors';
+import {buildSequence, ClipLayer, frameAt} from './sequence';
+import {drawTextOverlay, drawTitleCard, loadTitleFont, overlayStyle} from './titles';
+import {audibleClips, audioClipGainAt, isActiveAt, overlayOpacityAt} from './tracks';
+
+// Renders the timeline to one video file entirely in the browser: each clip is
+// played into a canvas, its audio and the audio tracks are mixed in a WebAudio
+// graph, and the combined stream is captured with MediaRecorder. Rendering runs in real time, so a
+// two-minute film takes about two minutes and the tab must stay visible.
+
+export interface RenderOptions {
+  resolution: Resolution;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+export type RenderTimeline = Pick<StoryBucket, 'scenes' | 'audioTracks' | 'overlays'>;
+
+export interface RenderedFilm {
+  blob: Blob;
+  extension: 'mp4' | 'webm';
+}
+
+const RENDER_FPS = 30;
+// Clips are loaded and cued this far ahead of their start so switches don't stall.
+const PRELOAD_SECONDS = 3;
+
+const FRAME_SIZES: Record<Resolution, [number, number]> = {
+  [Resolution.P720]: [1280, 720],
+  [Resolution.P1080]: [1920, 1080],
+};
+
+const BITRATES: Record<Resolution, number> = {
+  [Resolution.P720]: 5_000_000,
+  [Resolution.P1080]: 10_000_000,
+};
+
+// MP4 where the browser can record it, otherwise WebM.
+const RECORDER_FORMATS: {mimeType: string; extension: RenderedFilm['extension']}[] = [
+  {mimeType: 'video/mp4;codecs=avc1,mp4a.40.2', extension: 'mp4'},
+  {mimeType: 'video/mp4', extension: 'mp4'},
+  {mimeType: 'video/webm;codecs=vp9,opus', extension: 'webm'},
+  {mimeType: 'video/webm;codecs=vp8,opus', extension: 'webm'},
+  {mimeType: 'video/webm', extension: 'webm'},
+];
+
+export const pickRecorderFormat = () =>
+  typeof MediaRecorder === 'undefined' ? undefined : RECORDER_FORMATS.find(f => MediaRecorder.isTypeSupported(f.mimeType));
+
+const once = (target: HTMLMediaElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onError = () => reject(new Error(`Could not load a clip for rendering (${event}).`));
+    target.addEventListener(event, () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    }, {once: true});
+    target.addEventListener('error', onError, {once: true});
+  });
+
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve));
+
+/** Draws a video frame scaled to fit the canvas, letterboxed on black. */
+const drawContained = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  const {width, height} = ctx.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+/** Draws one layer of a frame, blended or wiped in as its transition requires. */
+const drawLayer = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, layer: ClipLayer) => {
+  const {width, height} = ctx.canvas;
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  if (layer.wipe !== undefined) {
+    ctx.beginPath();
+    ctx.rect(0, 0, width * layer.wipe, height);
+    ctx.clip();
+    // Keep the letterbox of the outgoing clip from showing through the revealed part.
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+  }
+  drawContained(ctx, video);
+  ctx.restore();
+};
+
+interface LoadedMedia {
+  element: HTMLMediaElement;
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+  started: boolean;
+}
+
+/**
+ * Renders the timeline, honouring trims and transitions, with its audio tracks
+ * mixed in and its overlays on top, to a single video. Portrait timelines (judged
+ * by the first clip) are rendered at the portrait frame size for the chosen resolution.
+ */
+export const renderSequence = async (timeline: RenderTimeline, options: RenderOptions): Promise<RenderedFilm> => {
+  const {resolution, signal, onProgress} = options;
+  const sequence = buildSequence(timeline.scenes);
+  if (sequence.clips.length === 0) throw new Error('The timeline has no scenes to render.');
+  const format = pickRecorderFormat();
+  if (!format) throw new Error('This browser cannot record video.');
+  const sounds = audibleClips(timeline.audioTracks);
+
+  const audio = new AudioContext();
+  const audioOut = audio.createMediaStreamDestination();
+  // Media is keyed by `video:<clip index>` or `audio:<clip id>`.
+  const loaded = new Map<string, Promise<LoadedMedia>>();
+  const ready = new Map<string, LoadedMedia>();
+
+  const load = (key: string, element: () => HTMLMediaElement, startAt: number) => {
+    if (!loaded.has(key)) {
+      loaded.set(key, (async () => {
+        const media = element();
+        media.preload = 'auto';
+        await once(media, 'loadeddata');
+        media.currentTime = startAt;
+        await once(media, 'seeked');
+        // Routed into the recording only, so the render is silent in the room.
+        const source = audio.createMediaElementSource(media);
+        const gain = audio.createGain();
+        source.connect(gain).connect(audioOut);
+        const entry = {element: media, source, gain, started: false};
+        ready.set(key, entry);
+        return entry;
+      })());
+    }
+    return loaded.get(key)!;
+  };
+
+  const loadVideo = (index: number) => load(`video:${index}`, () => {
+    const video = document.createElement('video');
+    video.playsInline = true;
+    video.src = sequence.clips[index].scene.videoUrl;
+    return video;
+  }, sequence.clips[index].sourceStart);
+
+  const loadSound = (index: number) => load(`audio:${sounds[index].id}`, () => new Audio(sounds[index].audioUrl), sounds[index].offset);
+
+  const release = (key: string) => {
+    const entry = ready.get(key);
+    if (!entry) return;
+    entry.element.pause();
+    entry.source.disconnect();
+    entry.gain.disconnect();
+    entry.element.removeAttribute('src');
+    entry.element.load();
+    ready.delete(key);
+  };
+
+  const start = (entry: LoadedMedia) => {
+    if (entry.started) return;
+    entry.started = true;
+    entry.element.play().catch(error => console.warn('Render clip playback failed:', error));
+  };
+
+  let recorder: MediaRecorder | undefined;
+  let stream: MediaStream | undefined;
+  try {
+    const first = (await loadVideo(0)).element as HTMLVideoElement;
+    const portrait = first.videoHeight > first.videoWidth;
+    const [long, short] = FRAME_SIZES[resolution];
+    const canvas = document.createElement('canvas');
+    canvas.width = portrait ? short : long;
+    canvas.height = portrait ? long : short;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+
+    stream = canvas.captureStream(RENDER_FPS);
+    audioOut.stream.getAudioTracks().forEach(track => stream!.addTrack(track));
+    recorder = new MediaRecorder(stream, {mimeType: format.mimeType, videoBitsPerSecond: BITRATES[resolution]});
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder!.onstop = () => resolve(); });
+
+    await Promise.all(timeline.overlays.map(overlay => loadTitleFont(overlayStyle(overlay).font)));
+    await audio.resume();
+    recorder.start(1000);
+    // The sequence clock; it is held back whenever a clip isn't ready in time.
+    let clockStart = performance.now();
+    let time = 0;
+
+    while (time < sequence.duration) {
+      if (signal?.aborted) throw new GenerationCancelledError('Render was cancelled.');
+      const now = await nextFrame();
+      time = (now - clockStart) / 1000;
+
+      sequence.clips.forEach((clip, index) => {
+        if (time >= clip.start - PRELOAD_SECONDS && time < clip.start + clip.duration) loadVideo(index);
+        if (time >= clip.start + clip.duration) release(`video:${index}`);
+      });
+      sounds.forEach((clip, index) => {
+        if (time >= clip.start - PRELOAD_SECONDS && time < clip.start + clip.duration) loadSound(index);
+        if (time >= clip.start + clip.duration) release(`audio:${clip.id}`);
+      });
+
+      const frame = frameAt(sequence, time);
+      const activeVideos = frame.layers.map(layer => sequence.clips.indexOf(layer.clip));
+      const activeSounds = sounds.map((_, index) => index).filter(index => isActiveAt(sounds[index], time));
+
+      const missing = [
+        ...activeVideos.filter(index => !ready.has(`video:${index}`)).map(loadVideo),
+        ...activeSounds.filter(index => !ready.has(`audio:${sounds[index].id}`)).map(loadSound),
+      ];
+      if (missing.length > 0) {
+        recorder.pause();
+        await Promise.all(missing);
+        recorder.resume();
+        clockStart = performance.now() - time * 1000;
+      }
+
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      frame.layers.forEach((layer, i) => {
+        const entry = ready.get(`video:${activeVideos[i]}`)!;
+        start(entry);
+        entry.gain.gain.value = layer.volume * (layer.clip.scene.volume ?? 1);
+        drawLayer(ctx, entry.element as HTMLVideoElement, layer);
+      });
+      if (frame.dip) {
+        ctx.save();
+        ctx.globalAlpha = frame.dip.amount;
+        ctx.fillStyle = frame.dip.color;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.restore();
+      }
+      for (const overlay of timeline.overlays) {
+        const opacity = overlayOpacityAt(overlay, time);
+        if (opacity > 0) drawTextOverlay(ctx, overlay, opacity);
+      }
+      for (const index of activeSounds) {
+        const entry = ready.get(`audio:${sounds[index].id}`)!;
+        start(entry);
+        entry.gain.gain.value = audioClipGainAt(sounds[index], time);
+      }
+      onProgress?.(Math.min(1, time / sequence.duration));
+    }
+
+    recorder.stop();
+    await stopped;
+    onProgress?.(1);
+    return {blob: new Blob(chunks, {type: format.mimeType.split(';')[0]}), extension: format.extension};
+  } finally {
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    [...ready.keys()].forEach(release);
+    stream?.getTracks().forEach(track => track.stop());
+    audio.close().catch(() => {});
+  }
+};
+
+/**
+ * Records a title card as a silent clip of `seconds`, at 720p in the given
+ * aspect ratio, so it can sit on the timeline like any generated scene.
+ */
+export const renderTitleCard = async (
+  card: TitleCard,
+  seconds: number,
+  aspectRatio: AspectRatio,
+  signal?: AbortSignal
+): Promise<RenderedFilm> => {
+  const format = pickRecorderFormat();
+  if (!format) throw new Error('This browser cannot record video.');
+  const [long, short] = FRAME_SIZES[Resolution.P720];
+  const portrait = aspectRatio === AspectRatio.PORTRAIT;
+  const canvas = document.createElement('canvas');
+  canvas.width = portrait ? short : long;
+  canvas.height = portrait ? long : short;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  await loadTitleFont(card.font);
+
+  const stream = canvas.captureStream(RENDER_FPS);
+  const recorder = new MediaRecorder(stream, {mimeType: format.mimeType, videoBitsPerSecond: BITRATES[Resolution.P720]});
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  try {
+    drawTitleCard(ctx, card);
+    recorder.start(1000);
+    const started = performance.now();
+    // The card is still, but the canvas is repainted every frame so the capture keeps producing frames.
+    while ((await nextFrame()) - started < seconds * 1000) {
+      if (signal?.aborted) throw new GenerationCancelledError('Title card rendering was cancelled.');
+      drawTitleCard(ctx, card);
+    }
+    recorder.stop();
+    await stopped;
+    return {blob: new Blob(chunks, {type: format.mimeType.split(';')[0]}), extension: format.extension};
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+  }
+};
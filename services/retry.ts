@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {isRetryable, toGenerationError} from './errors';
+import {sleep} from './polling';
+
+export interface RetryOptions {
+  // Repeating the call has no side effects (e.g. it does not start a new paid job).
+  idempotent: boolean;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 16000;
+
+/**
+ * Runs `call`, retrying retryable failures with exponential backoff and jitter.
+ * Whatever is finally thrown has been classified by toGenerationError.
+ */
+export const withRetry = async <T>(call: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const {
+    idempotent,
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    signal,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (raw) {
+      const error = toGenerationError(raw);
+      if (attempt >= retries || !isRetryable(error, idempotent)) throw error;
+      const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(`Retrying after ${error.message} (attempt ${attempt + 1} of ${retries})`);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Asset, GenerationMode, LibraryFilter, SavedFilterView, Scene, VeoModel} from '../types';
+
+// Free-text search, tags and facet filters over bin assets and timeline scenes.
+// One filter drives both; each facet only narrows the kind of item it describes.
+
+export const EMPTY_FILTER: LibraryFilter = {query: '', tags: [], assetTypes: [], modes: [], models: []};
+
+export const MODEL_LABELS: Record<VeoModel, string> = {
+  [VeoModel.VEO_FAST]: 'Veo Fast',
+  [VeoModel.VEO]: 'Veo',
+};
+
+export const MODE_OPTIONS = Object.values(GenerationMode);
+
+const generateId = () => globalThis.crypto?.randomUUID() ?? (Date.now().toString(36) + Math.random().toString(36).slice(2));
+
+/** Tags are compared case-insensitively, so they are stored lower-case and trimmed. */
+export const normalizeTag = (text: string) => text.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const isFilterActive = (filter: LibraryFilter) =>
+  filter.query.trim() !== '' || filter.tags.length > 0 || filter.assetTypes.length > 0 || filter.modes.length > 0 || filter.models.length > 0;
+
+/** Every word of the query has to appear somewhere in the item's text. */
+const matchesQuery = (query: string, fields: (string | undefined)[]) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = fields.filter(Boolean).join(' ').toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+const hasTags = (required: string[], tags: string[] = []) => required.every(tag => tags.includes(tag));
+
+export const assetMatches = (asset: Asset, filter: LibraryFilter) =>
+  (filter.assetTypes.length === 0 || filter.assetTypes.includes(asset.type)) &&
+  hasTags(filter.tags, asset.tags) &&
+  matchesQuery(filter.query, [asset.name, asset.prompt, ...(asset.tags ?? [])]);
+
+/**
+ * Scenes are searched by their final prompt and what was typed to get it. Mode
+ * and model filters leave out scenes whose settings were never recorded.
+ */
+export const sceneMatches = (scene: Scene, filter: LibraryFilter) =>
+  (filter.modes.length === 0 || (!!scene.settings && filter.modes.includes(scene.settings.mode))) &&
+  (filter.models.length === 0 || (!!scene.settings && filter.models.includes(scene.settings.model))) &&
+  hasTags(filter.tags, scene.tags) &&
+  matchesQuery(filter.query, [scene.prompt, scene.provenance?.composition?.rawPrompt, scene.titleCard?.title, scene.titleCard?.subtitle, ...(scene.tags ?? [])]);
+
+/** Every tag in use, for suggestions and the tag facet. */
+export const collectTags = (items: {tags?: string[]}[]): string[] =>
+  [...new Set(items.flatMap(item => item.tags ?? []))].sort();
+
+export const toggleValue = <T>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export const createFilterView = (name: string, filter: LibraryFilter): SavedFilterView => ({
+  id: generateId(),
+  name,
+  filter: {...filter, query: filter.query.trim()},
+});
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Scene, SceneTransition, TransitionType} from '../types';
+
+// Timing math shared by the viewer, sequence playback and export. All times are
+// in seconds of the scene's source clip; trims never modify the blob itself.
+
+export const MIN_CLIP_SECONDS = 0.5;
+
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+type TrimmableScene = Pick<Scene, 'trimIn' | 'trimOut' | 'duration'>;
+
+/** The part of the source clip that plays. Without a known duration the end is open. */
+export const getTrimRange = (scene: TrimmableScene, sourceDuration = scene.duration ?? Infinity): TrimRange => {
+  const start = Math.min(scene.trimIn ?? 0, Math.max(0, sourceDuration - MIN_CLIP_SECONDS));
+  const end = Math.min(scene.trimOut ?? sourceDuration, sourceDuration);
+  return {start, end: Math.max(end, start + MIN_CLIP_SECONDS)};
+};
+
+export const getTrimmedDuration = (scene: TrimmableScene): number | undefined => {
+  if (scene.duration === undefined) return undefined;
+  const {start, end} = getTrimRange(scene);
+  return end - start;
+};
+
+export const isTrimmed = (scene: TrimmableScene) => scene.trimIn !== undefined || scene.trimOut !== undefined;
+
+/**
+ * Clamps a requested in/out pair to the clip, keeping at least MIN_CLIP_SECONDS.
+ * Points at the clip's edges are stored as undefined so the scene reads as untrimmed.
+ */
+export const normalizeTrim = (
+  duration: number,
+  trimIn: number,
+  trimOut: number
+): Pick<Scene, 'trimIn' | 'trimOut'> => {
+  const start = Math.max(0, Math.min(trimIn, duration - MIN_CLIP_SECONDS));
+  const end = Math.min(duration, Math.max(trimOut, start + MIN_CLIP_SECONDS));
+  return {
+    trimIn: start > 0 ? start : undefined,
+    trimOut: end < duration ? end : undefined,
+  };
+};
+
+/** Formats seconds as m:ss.cc. */
+export const formatTimecode = (seconds: number): string => {
+  const safe = Math.max(0, seconds);
+  const minutes = Math.floor(safe / 60);
+  const rest = (safe - minutes * 60).toFixed(2).padStart(5, '0');
+  return `${minutes}:${rest}`;
+};
+
+/** Accepts "m:ss.cc", "ss.cc" or plain seconds; returns null for anything else. */
+export const parseTimecode = (text: string): number | null => {
+  const match = /^\s*(?:(\d+):)?(\d+(?:\.\d*)?)\s*$/.exec(text);
+  if (!match) return null;
+  return Number(match[1] ?? 0) * 60 + Number(match[2]);
+};
+
+// --- Sequence layout ---
+
+export const DEFAULT_TRANSITION_SECONDS = 1;
+export const MAX_TRANSITION_SECONDS = 3;
+
+const DIP_COLORS: Partial<Record<TransitionType, string>> = {
+  dip_black: '#000000',
+  dip_white: '#ffffff',
+};
+
+// Crossfades and wipes overlap the two clips; dips play them back to back through a colour.
+const overlapsClips = (type: TransitionType) => type === 'crossfade' || type === 'wipe';
+
+export interface SequenceClip {
+  scene: Scene;
+  index: number; // Position of the scene in the timeline
+  start: number; // Where the clip begins on the sequence clock
+  duration: number; // Trimmed length
+  sourceStart: number; // In point within the source clip
+  // Transitions as actually applied, shortened to fit the clips on either side.
+  transitionIn?: SceneTransition;
+  transitionOut?: SceneTransition;
+}
+
+export interface Sequence {
+  clips: SequenceClip[];
+  duration: number;
+}
+
+/**
+ * Lays the timeline's scenes out on one clock, overlapping neighbours where a
+ * transition needs both on screen. Scenes whose length is unknown cannot be
+ * placed and are left out.
+ */
+export const buildSequence = (scenes: Scene[]): Sequence => {
+  const clips: SequenceClip[] = [];
+  let end = 0;
+  scenes.forEach((scene, index) => {
+    if (scene.duration === undefined) return;
+    const {start, end: out} = getTrimRange(scene);
+    const clip: SequenceClip = {scene, index, start: end, duration: out - start, sourceStart: start};
+    const previous = clips[clips.length - 1];
+    const requested = previous?.scene.transitionOut;
+    if (previous && requested && requested.type !== 'cut') {
+      // An overlap can use at most half of either clip; a dip takes half its length from each.
+      const limit = overlapsClips(requested.type) ? 0.5 : 1;
+      const duration = Math.min(requested.duration, previous.duration * limit, clip.duration * limit);
+      const transition = {type: requested.type, duration};
+      previous.transitionOut = transition;
+      clip.transitionIn = transition;
+      if (overlapsClips(requested.type)) clip.start -= duration;
+    }
+    clips.push(clip);
+    end = clip.start + clip.duration;
+  });
+  return {clips, duration: end};
+};
+
+/** Index of the clip playing at `time`; times past the end resolve to the last clip. */
+export const clipIndexAt = (sequence: Sequence, time: number): number => {
+  const index = sequence.clips.findIndex(clip => time < clip.start + clip.duration);
+  return index < 0 ? sequence.clips.length - 1 : index;
+};
+
+export interface ClipLayer {
+  clip: SequenceClip;
+  opacity: number;
+  volume: number;
+  wipe?: number; // 0-1 of the frame revealed from the left
+}
+
+export interface SequenceFrame {
+  layers: ClipLayer[]; // Bottom to top
+  dip?: {color: string; amount: number};
+}
+
+/** What is on screen at `time`: the visible clips and how each is blended. */
+export const frameAt = (sequence: Sequence, time: number): SequenceFrame => {
+  const frame: SequenceFrame = {layers: []};
+  for (const clip of sequence.clips) {
+    const local = time - clip.start;
+    if (local < 0 || local >= clip.duration) continue;
+    const layer: ClipLayer = {clip, opacity: 1, volume: 1};
+    const {transitionIn, transitionOut} = clip;
+
+    if (transitionIn && local < transitionIn.duration) {
+      const progress = local / transitionIn.duration;
+      if (overlapsClips(transitionIn.type)) {
+        layer.volume = progress;
+        if (transitionIn.type === 'wipe') layer.wipe = progress;
+        else layer.opacity = progress;
+      }
+    }
+    if (transitionOut && local > clip.duration - transitionOut.duration) {
+      const remaining = (clip.duration - local) / transitionOut.duration;
+      if (overlapsClips(transitionOut.type)) layer.volume = remaining;
+    }
+
+    // A dip fades the first half of its duration out to a colour and the second half back in.
+    const dipOut = transitionOut && DIP_COLORS[transitionOut.type];
+    if (dipOut && local > clip.duration - transitionOut.duration / 2) {
+      frame.dip = {color: dipOut, amount: 1 - (clip.duration - local) / (transitionOut.duration / 2)};
+    }
+    const dipIn = transitionIn && DIP_COLORS[transitionIn.type];
+    if (dipIn && local < transitionIn.duration / 2) {
+      frame.dip = {color: dipIn, amount: 1 - local / (transitionIn.duration / 2)};
+    }
+    if (frame.dip) layer.volume = Math.min(layer.volume, 1 - frame.dip.amount);
+
+    frame.layers.push(layer);
+  }
+  return frame;
+};
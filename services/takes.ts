@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  GenerationMode,
+  GenerationSettings,
+  PromptComposition,
+  Resolution,
+  Scene,
+  SceneProvenance,
+  SceneTake,
+  VeoModel,
+} from '../types';
+
+// A timeline slot can hold several takes of the same shot. The scene's own
+// media fields (video, prompt, duration, trims, settings, provenance) always belong to the
+// selected take, so playback, export and everything else only ever see that one.
+// `scene.takes` lists every take, but its copy of the selected take may be stale;
+// read takes through getTakes, which refreshes it from the scene.
+
+const generateId = () => globalThis.crypto?.randomUUID() ?? (Date.now().toString(36) + Math.random().toString(36).slice(2));
+
+export const settingsOf = ({model, aspectRatio, resolution, mode}: GenerateVideoParams): GenerationSettings =>
+  ({model, aspectRatio, resolution, mode});
+
+export const provenanceOf = (
+  {startFrame, endFrame, referenceImages, isLooping}: GenerateVideoParams,
+  composition?: PromptComposition
+): SceneProvenance => ({startFrame, endFrame, referenceImages, isLooping, composition});
+
+const takeFields = (source: Omit<SceneTake, 'id'>): Omit<SceneTake, 'id'> => ({
+  videoUrl: source.videoUrl,
+  videoBlob: source.videoBlob,
+  videoObject: source.videoObject,
+  prompt: source.prompt,
+  timestamp: source.timestamp,
+  duration: source.duration,
+  trimIn: source.trimIn,
+  trimOut: source.trimOut,
+  settings: source.settings,
+  provenance: source.provenance,
+});
+
+// Scenes shot before takes existed are their own first take.
+export const getSelectedTakeId = (scene: Scene): string => scene.selectedTakeId ?? scene.id;
+
+/** The scene's takes in the order they were shot. */
+export const getTakes = (scene: Scene): SceneTake[] => {
+  const selectedId = getSelectedTakeId(scene);
+  return (scene.takes ?? [{id: selectedId, ...takeFields(scene)}])
+    .map(take => take.id === selectedId ? {id: take.id, ...takeFields(scene)} : take);
+};
+
+const withTakes = (scene: Scene, takes: SceneTake[], selected: SceneTake): Scene =>
+  ({...scene, ...takeFields(selected), takes, selectedTakeId: selected.id});
+
+/** Makes another take the one that plays and exports. */
+export const selectTake = (scene: Scene, takeId: string): Scene => {
+  const takes = getTakes(scene);
+  const take = takes.find(t => t.id === takeId);
+  if (!take || take.id === getSelectedTakeId(scene)) return scene;
+  return withTakes(scene, takes, take);
+};
+
+/** Adds a freshly generated take to the slot and selects it. */
+export const addTake = (scene: Scene, fields: Omit<SceneTake, 'id'>): Scene => {
+  const take = {id: generateId(), ...takeFields(fields)};
+  return withTakes(scene, [...getTakes(scene), take], take);
+};
+
+/** Drops a take; the last remaining take cannot be removed. */
+export const removeTake = (scene: Scene, takeId: string): Scene => {
+  const takes = getTakes(scene);
+  const index = takes.findIndex(t => t.id === takeId);
+  if (index < 0 || takes.length === 1) return scene;
+  const remaining = takes.filter(t => t.id !== takeId);
+  const selected = takeId === getSelectedTakeId(scene)
+    ? remaining[Math.min(index, remaining.length - 1)]
+    : remaining.find(t => t.id === getSelectedTakeId(scene))!;
+  return withTakes(scene, remaining, selected);
+};
+
+// --- Reshoots ---
+
+/**
+ * Parameters for shooting the scene's selected take again, with its final prompt
+ * (style and continuity text included). Clips from before provenance was recorded
+ * come back without their frames and references, and a scene that extended
+ * another clip is reshot from text.
+ */
+export const paramsForReshoot = (scene: Scene): GenerateVideoParams => {
+  const {settings, provenance} = scene;
+  return {
+    prompt: scene.prompt,
+    model: settings?.model ?? VeoModel.VEO_FAST,
+    aspectRatio: settings?.aspectRatio ?? AspectRatio.LANDSCAPE,
+    resolution: settings?.resolution ?? Resolution.P720,
+    mode: settings && settings.mode !== GenerationMode.EXTEND_VIDEO ? settings.mode : GenerationMode.TEXT_TO_VIDEO,
+    startFrame: provenance?.startFrame ?? null,
+    endFrame: provenance?.endFrame ?? null,
+    referenceImages: provenance?.referenceImages ?? [],
+    inputVideo: null,
+    inputVideoObject: null,
+    isLooping: provenance?.isLooping ?? false,
+  };
+};
+
+/** Whether paramsForReshoot reproduces the original request exactly. */
+export const canReshootAsIs = (scene: Scene) => {
+  const mode = scene.settings?.mode;
+  if (mode === GenerationMode.TEXT_TO_VIDEO) return true;
+  return !!scene.provenance && mode !== undefined && mode !== GenerationMode.EXTEND_VIDEO;
+};
+
+/**
+ * What to put back in the prompt bar to edit the scene's request: the prompt as
+ * typed, with the style and continuity locks to re-apply on top of it. Without a
+ * recorded composition the final prompt is used as is.
+ */
+export const promptBarValues = (scene: Scene): {params: GenerateVideoParams; composition?: PromptComposition} => {
+  const composition = scene.provenance?.composition;
+  const params = paramsForReshoot(scene);
+  return {params: composition ? {...params, prompt: composition.rawPrompt} : params, composition};
+};
+
+// --- Prompt diffs ---
+
+export interface DiffPart {
+  text: string;
+  kind: 'same' | 'added' | 'removed';
+}
+
+/** Word-level diff from `before` to `after`, for showing how takes' prompts differ. */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  // Longest common subsequence table, filled from the end.
+  const lcs = Array.from({length: a.length + 1}, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += ` ${text}`;
+    else parts.push({text, kind});
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {OverlayClip, OverlayPosition, TitleCard, TitleFont} from '../types';
+
+// Text on the picture: full-frame title cards and overlays drawn over scenes.
+// The same drawing code makes title card clips, previews them and bakes
+// overlays into exports; the player mirrors the layout with CSS.
+
+export const TITLE_FONTS: Record<TitleFont, {label: string; family: string}> = {
+  sans: {label: 'Sans', family: 'Montserrat, system-ui, sans-serif'},
+  serif: {label: 'Serif', family: 'Georgia, "Times New Roman", serif'},
+  mono: {label: 'Mono', family: '"Courier New", monospace'},
+  script: {label: 'Script', family: '"Brush Script MT", "Segoe Script", cursive'},
+};
+
+// `y` is where the middle of the text block sits, as a fraction of the frame height.
+export const OVERLAY_POSITIONS: Record<OverlayPosition, {label: string; y: number}> = {
+  top: {label: 'Top', y: 0.12},
+  center: {label: 'Center', y: 0.5},
+  lower_third: {label: 'Lower Third', y: 0.78},
+  bottom: {label: 'Bottom', y: 0.9},
+};
+
+export const DEFAULT_TITLE_CARD: TitleCard = {
+  title: 'Chapter One',
+  subtitle: '',
+  font: 'serif',
+  textColor: '#ffffff',
+  backgroundColor: '#000000',
+};
+
+export const DEFAULT_TITLE_SECONDS = 4;
+export const MIN_TITLE_SECONDS = 1;
+export const MAX_TITLE_SECONDS = 10;
+
+/** An overlay's styling with defaults filled in for anything unset. */
+export const overlayStyle = (overlay: OverlayClip) => ({
+  position: overlay.position ?? 'lower_third',
+  font: overlay.font ?? 'sans',
+  color: overlay.color ?? '#ffffff',
+});
+
+export const fontCss = (font: TitleFont, size: number, weight = 600) => `${weight} ${size}px ${TITLE_FONTS[font].family}`;
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width > maxWidth && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Draws wrapped, centred lines around `y` in the current font; returns the block's height.
+const drawLines = (ctx: CanvasRenderingContext2D, text: string, y: number, lineHeight: number): number => {
+  const lines = wrapText(ctx, text, ctx.canvas.width * 0.8);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, ctx.canvas.width / 2, y + (i - (lines.length - 1) / 2) * lineHeight));
+  return lines.length * lineHeight;
+};
+
+/** Paints a title card over the whole canvas. */
+export const drawTitleCard = (ctx: CanvasRenderingContext2D, card: TitleCard) => {
+  const {width, height} = ctx.canvas;
+  const titleSize = Math.round(Math.min(width, height) / 9);
+  const subtitleSize = Math.round(titleSize * 0.4);
+  ctx.save();
+  ctx.fillStyle = card.backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = card.textColor;
+  ctx.font = fontCss(card.font, titleSize);
+  const subtitle = card.subtitle.trim();
+  const titleY = subtitle ? height * 0.46 : height / 2;
+  const titleHeight = drawLines(ctx, card.title, titleY, titleSize * 1.2);
+  if (subtitle) {
+    ctx.globalAlpha = 0.75;
+    ctx.font = fontCss(card.font, subtitleSize, 400);
+    drawLines(ctx, subtitle, titleY + titleHeight / 2 + subtitleSize * 1.5, subtitleSize * 1.3);
+  }
+  ctx.restore();
+};
+
+/** Draws an overlay's text at its position, faded to `opacity`. */
+export const drawTextOverlay = (ctx: CanvasRenderingContext2D, overlay: OverlayClip, opacity: number) => {
+  const {position, font, color} = overlayStyle(overlay);
+  const size = Math.round(ctx.canvas.height / 18);
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.font = fontCss(font, size);
+  ctx.fillStyle = color;
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+  ctx.shadowBlur = size / 4;
+  drawLines(ctx, overlay.text, ctx.canvas.height * OVERLAY_POSITIONS[position].y, size * 1.25);
+  ctx.restore();
+};
+
+/** Waits for the web fonts a card or overlay uses, so the canvas doesn't draw with a fallback. */
+export const loadTitleFont = (font: TitleFont) =>
+  document.fonts.load(fontCss(font, 32)).then(() => undefined, () => undefined);
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AudioClip, AudioTrack, AudioTrackKind, OverlayClip} from '../types';
+
+// The audio and text tracks that sit under and over the video track. Like the
+// sequence layout, this is plain timing math shared by playback and export;
+// every time here is on the sequence clock.
+
+export const AUDIO_TRACK_LABELS: Record<AudioTrackKind, string> = {
+  music: 'Music',
+  voiceover: 'Voiceover',
+  sfx: 'SFX',
+};
+
+export const DEFAULT_OVERLAY_SECONDS = 3;
+// Overlays ease in and out over this long instead of popping.
+export const OVERLAY_FADE_SECONDS = 0.3;
+
+const generateId = () => globalThis.crypto?.randomUUID() ?? (Date.now().toString(36) + Math.random().toString(36).slice(2));
+
+export const createAudioTrack = (kind: AudioTrackKind, existing: AudioTrack[]): AudioTrack => {
+  const count = existing.filter(t => t.kind === kind).length;
+  return {
+    id: generateId(),
+    kind,
+    name: count > 0 ? `${AUDIO_TRACK_LABELS[kind]} ${count + 1}` : AUDIO_TRACK_LABELS[kind],
+    muted: false,
+    clips: [],
+  };
+};
+
+export const createAudioClip = (name: string, blob: Blob, duration: number, start: number): AudioClip => ({
+  id: generateId(),
+  name,
+  audioUrl: URL.createObjectURL(blob),
+  audioBlob: blob,
+  start,
+  offset: 0,
+  duration,
+  volume: 1,
+  fadeIn: 0,
+  fadeOut: 0,
+});
+
+export const createOverlay = (text: string, start: number): OverlayClip => ({
+  id: generateId(),
+  text,
+  start,
+  duration: DEFAULT_OVERLAY_SECONDS,
+});
+
+export const isActiveAt = (clip: {start: number; duration: number}, time: number) =>
+  time >= clip.start && time < clip.start + clip.duration;
+
+/** Fades can't overlap each other or run past the clip. */
+export const clampFades = (clip: AudioClip): AudioClip => {
+  const fadeIn = Math.max(0, Math.min(clip.fadeIn, clip.duration));
+  return {...clip, fadeIn, fadeOut: Math.max(0, Math.min(clip.fadeOut, clip.duration - fadeIn))};
+};
+
+/** Level of an audio clip at `time`, with its fades applied; 0 outside the clip. */
+export const audioClipGainAt = (clip: AudioClip, time: number): number => {
+  if (!isActiveAt(clip, time)) return 0;
+  const local = time - clip.start;
+  let envelope = 1;
+  if (clip.fadeIn > 0 && local < clip.fadeIn) envelope = local / clip.fadeIn;
+  const remaining = clip.duration - local;
+  if (clip.fadeOut > 0 && remaining < clip.fadeOut) envelope = Math.min(envelope, remaining / clip.fadeOut);
+  return clip.volume * envelope;
+};
+
+/** Opacity of an overlay at `time`; 0 outside it. */
+export const overlayOpacityAt = (overlay: OverlayClip, time: number): number => {
+  if (!isActiveAt(overlay, time)) return 0;
+  const fade = Math.min(OVERLAY_FADE_SECONDS, overlay.duration / 2);
+  const local = time - overlay.start;
+  return Math.min(1, local / fade, (overlay.duration - local) / fade);
+};
+
+/** The audio clips that can be heard, i.e. those on unmuted tracks. */
+export const audibleClips = (tracks: AudioTrack[]): AudioClip[] =>
+  tracks.filter(t => !t.muted).flatMap(t => t.clips);
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Asset, TurnaroundView} from '../types';
+import {MAX_REFERENCE_IMAGES} from './geminiService';
+
+// Character turnaround sheets: extra views of a character asset, each drawn
+// from the original image and kept as a linked set under it.
+
+export const TURNAROUND_VIEWS: {view: TurnaroundView; label: string; angle: string}[] = [
+  {view: 'front', label: 'Front', angle: 'front view, facing the camera'},
+  {view: 'three_quarter', label: 'Three-Quarter', angle: 'three-quarter view, turned 45 degrees from the camera'},
+  {view: 'profile', label: 'Profile', angle: 'side profile view, turned 90 degrees from the camera'},
+  {view: 'back', label: 'Back', angle: 'back view, facing away from the camera'},
+];
+
+export const canHaveTurnaround = (asset: Asset) => asset.type === 'character' && !asset.parentAssetId;
+
+export const turnaroundPrompt = (parent: Asset, view: TurnaroundView): string => {
+  const {angle} = TURNAROUND_VIEWS.find(v => v.view === view)!;
+  const subject = parent.name?.trim() ? `${parent.name.trim()}, ${parent.prompt}` : parent.prompt;
+  return `Character turnaround sheet: the same character as in the reference image (${subject}), shown in ${angle}. ` +
+    'Full body, neutral standing pose, plain light grey background, even studio lighting. Keep the face, hair, ' +
+    'build and costume exactly as in the reference.';
+};
+
+/** The views drawn so far for a character, in turnaround order. */
+export const turnaroundSet = (assets: Asset[], parentId: string): Asset[] =>
+  TURNAROUND_VIEWS.flatMap(({view}) => assets.filter(a => a.parentAssetId === parentId && a.view === view).slice(0, 1));
+
+/**
+ * Which of a character's views to hand to References to Video. Veo takes only
+ * a few reference images, so the angles that show the face win over the back view.
+ */
+export const pickReferenceViews = (views: Asset[]): Asset[] => views.slice(0, MAX_REFERENCE_IMAGES);
+
+export const turnaroundReferenceIds = (assets: Asset[], parentId: string): string[] =>
+  pickReferenceViews(turnaroundSet(assets, parentId)).map(a => a.id);
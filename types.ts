@@ -4,13 +4,6 @@
 */
 import type {Video} from '@google/genai';
 
-export enum AppState {
-  IDLE,
-  LOADING,
-  SUCCESS,
-  ERROR,
-}
-
 export enum VeoModel {
   VEO_FAST = 'veo-3.1-fast-generate-preview',
   VEO = 'veo-3.1-generate-preview',
@@ -57,6 +50,13 @@ export interface GenerateVideoParams {
   isLooping: boolean;
 }
 
+export type TransitionType = 'cut' | 'crossfade' | 'dip_black' | 'dip_white' | 'wipe';
+
+export interface SceneTransition {
+  type: TransitionType;
+  duration: number; // Seconds
+}
+
 export interface Scene {
   id: string;
   videoUrl: string;
@@ -64,17 +64,65 @@ export interface Scene {
   videoObject: Video;
   prompt: string;
   timestamp: number;
-  duration?: number;
+  duration?: number; // Length of the source clip in seconds
+  // Non-destructive in/out points in seconds of the source clip; unset means the clip's edge.
+  trimIn?: number;
+  trimOut?: number;
+  transitionOut?: SceneTransition; // Into the next scene on the timeline; a cut when unset
   mood?: string; // For Narrative Arc
+  volume?: number; // 0-1 level of the clip's own audio in the mix; full when unset
+  settings?: GenerationSettings; // What the clip was generated with, for reshoots
+  provenance?: SceneProvenance; // The rest of the request behind the clip
+  titleCard?: TitleCard; // Set when the clip was rendered from text rather than generated
+  tags?: string[]; // Lower-case, user-assigned; shared by every take
+  // Every take shot for this slot (see services/takes.ts); the fields above mirror the selected one.
+  takes?: SceneTake[];
+  selectedTakeId?: string;
 }
 
+// Model settings a clip was generated with; together with its prompt, enough to reshoot it.
+export type GenerationSettings = Pick<GenerateVideoParams, 'model' | 'aspectRatio' | 'resolution' | 'mode'>;
+
+// How the prompt bar built a final prompt out of what was typed.
+export interface PromptComposition {
+  rawPrompt: string; // As typed, before style and continuity text were added
+  style: FilmStyle | null;
+  continuity: ContinuityProfile; // The locks in force at the time
+}
+
+// Inputs of a generation beyond its settings and final prompt. Source videos are
+// not kept, so clips made in Extend Video mode can only be regenerated from text.
+export interface SceneProvenance {
+  startFrame: ImageFile | null;
+  endFrame: ImageFile | null;
+  referenceImages: ImageFile[];
+  isLooping: boolean;
+  composition?: PromptComposition; // Unset when the prompt came from elsewhere (bridges, the Director)
+}
+
+// One generation for a timeline slot, with the trims chosen while it was selected.
+export type SceneTake = Pick<
+  Scene,
+  'videoUrl' | 'videoBlob' | 'videoObject' | 'prompt' | 'timestamp' | 'duration' | 'trimIn' | 'trimOut' | 'settings' | 'provenance'
+> & { id: string };
+
+export type AssetType = 'character' | 'environment' | 'object';
+
+// One angle of a character turnaround sheet.
+export type TurnaroundView = 'front' | 'three_quarter' | 'profile' | 'back';
+
 export interface Asset {
   id: string;
   imageUrl: string;
   imageBlob: Blob;
   prompt: string;
-  type: 'character' | 'environment' | 'object';
+  type: AssetType;
   name?: string; // e.g., "Detective John"
+  bucketId?: string; // Scoped to one story bucket; shared across buckets when unset
+  tags?: string[]; // Lower-case, user-assigned
+  // Set on turnaround views: the character they were drawn from, and which angle they show.
+  parentAssetId?: string;
+  view?: TurnaroundView;
 }
 
 export interface FilmStyle {
@@ -90,9 +138,122 @@ export interface ContinuityProfile {
     lightingLock: string | null; // e.g., "Golden Hour", "Cyberpunk Neon"
 }
 
+export type JobKind = 'video' | 'image';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timed_out';
+
+// Why a generation failed; see services/errors.ts.
+export type GenerationErrorKind = 'auth' | 'quota' | 'safety' | 'invalid_request' | 'network' | 'malformed_output' | 'unknown';
+
+export interface GenerationJob {
+    id: string;
+    kind: JobKind;
+    label: string; // Prompt shown in the queue and on placeholders
+    bucketId: string; // Story bucket the result lands in
+    status: JobStatus;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    expectedDurationMs: number; // Used to estimate progress; the APIs don't report any
+    afterSceneId?: string; // Video jobs: scene the result is inserted after
+    reshootSceneId?: string; // Video jobs: scene the result becomes a new take of
+    error?: string;
+    errorKind?: GenerationErrorKind;
+}
+
+// A Veo operation that was submitted but not yet collected, persisted so it survives a reload.
+export interface PendingOperation {
+    id: string; // Job id
+    operationName: string;
+    params: GenerateVideoParams;
+    bucketId: string;
+    label: string;
+    startedAt: number;
+    afterSceneId?: string; // Scene the result is inserted after; appended when unset or gone
+    reshootSceneId?: string; // Scene the result is added to as a new take
+    composition?: PromptComposition;
+}
+
+export interface StoryboardItem {
+    id: string;
+    assetId: string;
+    x: number;
+    y: number;
+    note: string;
+}
+
+export type AudioTrackKind = 'music' | 'voiceover' | 'sfx';
+
+// A sound placed on the sequence clock. Positions are absolute, so audio stays put when scenes are reordered.
+export interface AudioClip {
+    id: string;
+    name: string;
+    audioUrl: string;
+    audioBlob: Blob; // An uploaded file, or a scene's video when its soundtrack is reused
+    start: number; // Seconds on the sequence clock
+    offset: number; // Seconds into the source where playback begins
+    duration: number; // Seconds played
+    volume: number; // 0-1
+    fadeIn: number; // Seconds
+    fadeOut: number; // Seconds
+}
+
+export interface AudioTrack {
+    id: string;
+    kind: AudioTrackKind;
+    name: string;
+    muted: boolean;
+    clips: AudioClip[];
+}
+
+export type TitleFont = 'sans' | 'serif' | 'mono' | 'script';
+
+// A full-frame card (opening title, chapter card) that sits on the video track as a clip of its own.
+export interface TitleCard {
+    title: string;
+    subtitle: string;
+    font: TitleFont;
+    textColor: string; // CSS colour
+    backgroundColor: string; // CSS colour
+}
+
+export type OverlayPosition = 'top' | 'center' | 'lower_third' | 'bottom';
+
+// Text shown over the picture for a stretch of the sequence clock.
+export interface OverlayClip {
+    id: string;
+    text: string;
+    start: number; // Seconds on the sequence clock
+    duration: number; // Seconds
+    // Unset styling falls back to white sans-serif in the lower third.
+    position?: OverlayPosition;
+    font?: TitleFont;
+    color?: string; // CSS colour
+}
+
 export interface StoryBucket {
     id: string;
     name: string;
-    scenes: Scene[];
+    scenes: Scene[]; // The video track
+    audioTracks: AudioTrack[];
+    overlays: OverlayClip[]; // The text track
     storyMemory: string; // The "current plot state" text
-}
\ No newline at end of file
+    selectedStyle: FilmStyle | null;
+    continuity: ContinuityProfile;
+    storyboard: StoryboardItem[];
+}
+
+// What the bin and timeline are narrowed down to. Empty lists don't filter;
+// asset types only apply to assets, modes and models only to scenes.
+export interface LibraryFilter {
+    query: string;
+    tags: string[]; // Items must carry every one of these
+    assetTypes: AssetType[];
+    modes: GenerationMode[];
+    models: VeoModel[];
+}
+
+export interface SavedFilterView {
+    id: string;
+    name: string;
+    filter: LibraryFilter;
+}
@@ -7,5 +7,6 @@ export default defineConfig({
   define: {
     'process.env.API_KEY': JSON.stringify(process.env.GEMINI_API_KEY),
     'process.env.GEMINI_API_URL': JSON.stringify(process.env.GEMINI_API_URL),
+    'process.env.GENERATION_PROVIDER': JSON.stringify(process.env.GENERATION_PROVIDER),
   },
 });
\ No newline at end of file